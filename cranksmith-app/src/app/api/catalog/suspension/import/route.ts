@@ -0,0 +1,57 @@
+// src/app/api/catalog/suspension/import/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import {
+  linkExistingProducts,
+  parseSuspensionImport,
+  type SuspensionProduct
+} from '@/lib/suspension-catalog'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const adminToken = process.env.CATALOG_ADMIN_TOKEN
+
+// Imports fork/shock specs into the products catalog. The body is a JSON array or a CSV
+// file (see parseSuspensionImport for the fields). Nothing is written unless every
+// record validates; `?dryRun=true` only validates.
+export async function POST(request: NextRequest) {
+  if (!adminToken || request.headers.get('authorization') !== `Bearer ${adminToken}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { records, errors } = parseSuspensionImport(await request.text())
+  if (errors.length > 0) {
+    return NextResponse.json({ error: 'Validation failed', errors }, { status: 400 })
+  }
+
+  if (request.nextUrl.searchParams.get('dryRun') === 'true') {
+    return NextResponse.json({ valid: records.length })
+  }
+
+  const { data: products, error: productsError } = await supabase
+    .from('products')
+    .select('id, brand, model, product_type')
+    .in('product_type', ['fork', 'shock'])
+  if (productsError) {
+    console.error('Error fetching suspension products:', productsError)
+    return NextResponse.json({ error: 'Import failed; nothing was written' }, { status: 500 })
+  }
+
+  // One transaction for the whole file (see the import_suspension_catalog migration)
+  const { data, error } = await supabase.rpc('import_suspension_catalog', {
+    records: linkExistingProducts(records, (products || []) as SuspensionProduct[])
+  })
+  if (error) {
+    console.error('Error importing suspension catalog:', error)
+    return NextResponse.json(
+      { error: 'Import failed; nothing was written' },
+      { status: 500 }
+    )
+  }
+
+  const { created, updated } = data as { created: number, updated: number }
+  return NextResponse.json({ created, updated })
+}
@@ -4,7 +4,18 @@ import { useState, useEffect, FC } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useRouter } from 'next/navigation'
 import Header from '@/components/Header'
+import UnitInput from '@/components/UnitInput'
+import UnitPreferencesControl from '@/components/UnitPreferencesControl'
+import GearChart from '@/components/GearChart'
+import CadenceSpeedMatrix from '@/components/CadenceSpeedMatrix'
 import Link from 'next/link'
+import { DEFAULT_WHEEL_CIRCUMFERENCE_MM, getWheelCircumferenceMm } from '@/lib/wheel-sizes'
+import { CassetteOption, ClimbPlanInputs, CranksetOption, DEFAULT_MIN_CLIMB_CADENCE, DrivetrainClimbCheck, checkDrivetrainForClimb, planClimb, recommendCombinations } from '@/lib/climbing-planner'
+import { DrivetrainLayout, REFERENCE_POWER_WATTS } from '@/lib/drivetrain-efficiency'
+import { DEFAULT_DUPLICATE_THRESHOLD_PERCENT, GearAnalysis, GearAnalysisOptions, GearStep, ShiftStep, analyzeGears } from '@/lib/gear-analysis'
+import { CADENCE_BAND_LIMITS, CadenceBand, ComparisonResult, DEFAULT_CADENCE_BAND, DEFAULT_CRANK_LENGTH_MM, GearCalculationOptions, GearRatio, KMH_TO_MPH, calculateGearRatios, compareSetups, findGearsForSpeed, parseCadenceBand } from '@/lib/gear-logic'
+import { DEFAULT_UNIT_PREFERENCES, UnitPreferences, formatLength, resolveUnitPreferences, unitLabel } from '@/lib/units'
+import type { SurfaceType } from '@/lib/pressure-models'
 
 // --- Type Definitions ---
 
@@ -16,6 +27,8 @@ interface User {
 interface Profile {
   id: string;
   subscription_status?: 'free' | 'premium';
+  unit_preferences?: Partial<UnitPreferences> | null;
+  cadence_band?: CadenceBand | null;
 }
 
 type ProductType = 'crankset' | 'cassette' | 'wheel' | 'derailleur' | 'shifter' | 'brake' | 'frame' | 'fork' | 'bottom_bracket';
@@ -44,6 +57,7 @@ interface CranksetDetails {
   bcd?: string;
   q_factor_mm?: number;
   arm_length_mm?: number;
+  chainline_mm?: number;
 }
 
 interface WheelDetails {
@@ -107,88 +121,39 @@ interface GearSetup {
   cassette?: Component;
   wheelCircumference?: number;
 }
-interface GearRatio { gear: number; chainring: number; cog: number; ratio: number; speedAt90rpm: number; speedAt90rpmMph: number; }
-interface ComparisonResult { easiestGearImprovement: number; hardestGearImprovement: number; gearRange: { current: number; proposed: number; improvement: number; }; }
 
 
 // --- Gear Calculation Logic ---
-function calculateGearRatios(setup: GearSetup, cadence: number = 90): GearRatio[] {
-  const chainrings = setup.crankset?.cranksets?.chainrings || [];
-  const cogs = setup.cassette?.cassettes?.cogs || [];
-  if (chainrings.length === 0 || cogs.length === 0) return [];
-
-  const circumferenceMm = setup.wheelCircumference || 2100;
-  const gears: GearRatio[] = [];
-  let gearNumber = 1;
-  
-  const sortedChainrings = [...chainrings].sort((a, b) => b - a);
-  const sortedCogs = [...cogs].sort((a, b) => a - b);
-  
-  sortedChainrings.forEach(chainring => {
-    sortedCogs.forEach(cog => {
-      const ratio = chainring / cog;
-      const distancePerRevolution = circumferenceMm / 1000;
-      const speedMs = (cadence * distancePerRevolution) / 60;
-      const speedKmh = speedMs * 3.6;
-      const speedMph = speedKmh * 0.621371;
-      
-      gears.push({
-        gear: gearNumber++,
-        chainring,
-        cog,
-        ratio: Math.round(ratio * 100) / 100,
-        speedAt90rpm: Math.round(speedKmh * 10) / 10,
-        speedAt90rpmMph: Math.round(speedMph * 10) / 10
-      });
-    });
-  });
-  
-  return gears.sort((a, b) => a.ratio - b.ratio);
+function drivetrainLayout(setup: GearSetup): DrivetrainLayout {
+  return {
+    chainlineMm: setup.crankset?.cranksets?.chainline_mm,
+    cassetteSpeeds: setup.cassette?.cassettes?.speeds,
+  };
 }
-function compareSetups(currentSetup: GearSetup, proposedSetup: GearSetup): ComparisonResult {
-  const currentGears = calculateGearRatios(currentSetup);
-  const proposedGears = calculateGearRatios(proposedSetup);
-  
-  if (currentGears.length === 0 || proposedGears.length === 0) {
-    return {
-      easiestGearImprovement: 0,
-      hardestGearImprovement: 0,
-      gearRange: { current: 0, proposed: 0, improvement: 0 }
-    };
-  }
 
-  // Find easiest gears (lowest ratios for climbing)
-  const currentEasiest = Math.min(...currentGears.map(g => g.ratio));
-  const proposedEasiest = Math.min(...proposedGears.map(g => g.ratio));
-  
-  // Find hardest gears (highest ratios for top speed)
-  const currentHardest = Math.max(...currentGears.map(g => g.ratio));
-  const proposedHardest = Math.max(...proposedGears.map(g => g.ratio));
-  
-  // Calculate improvements (negative ratio change = easier climbing)
-  const easiestGearImprovement = Math.round(((proposedEasiest - currentEasiest) / currentEasiest) * -100);
-  const hardestGearImprovement = Math.round(((proposedHardest - currentHardest) / currentHardest) * 100);
-  
-  // Calculate gear range improvements
-  const currentRange = currentHardest / currentEasiest;
-  const proposedRange = proposedHardest / proposedEasiest;
-  const rangeImprovement = Math.round(((proposedRange - currentRange) / currentRange) * 100);
-  
+function gearOptions(setup: GearSetup, cadence: number): GearCalculationOptions {
   return {
-    easiestGearImprovement,
-    hardestGearImprovement,
-    gearRange: {
-      current: Math.round(currentRange * 100) / 100,
-      proposed: Math.round(proposedRange * 100) / 100,
-      improvement: rangeImprovement
-    }
+    ...drivetrainLayout(setup),
+    wheelCircumferenceMm: setup.wheelCircumference,
+    crankLengthMm: setup.crankset?.cranksets?.arm_length_mm,
+    cadence,
   };
 }
 
+function calculateSetupGears(setup: GearSetup, cadence: number): GearRatio[] {
+  const chainrings = setup.crankset?.cranksets?.chainrings || [];
+  const cogs = setup.cassette?.cassettes?.cogs || [];
+  return calculateGearRatios(chainrings, cogs, gearOptions(setup, cadence));
+}
+
+function analysisOptions(setup: GearSetup, duplicateThresholdPercent: number): GearAnalysisOptions {
+  return { ...drivetrainLayout(setup), duplicateThresholdPercent };
+}
+
 
 // --- Main Component ---
 export default function GearRatioCalculatorPage() {
-  const [, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [bikes, setBikes] = useState<Bike[]>([]);
   const [selectedBikeId, setSelectedBikeId] = useState<string>('');
@@ -196,6 +161,12 @@ export default function GearRatioCalculatorPage() {
   const [proposedSetup, setProposedSetup] = useState<GearSetup>({});
   const [availableComponents, setAvailableComponents] = useState<Component[]>([]);
   const [cadence, setCadence] = useState<number>(90);
+  const [cadenceBand, setCadenceBand] = useState<CadenceBand>(DEFAULT_CADENCE_BAND);
+  const [cadenceBandDraft, setCadenceBandDraft] = useState({ minRpm: String(DEFAULT_CADENCE_BAND.minRpm), maxRpm: String(DEFAULT_CADENCE_BAND.maxRpm) });
+  const [targetSpeed, setTargetSpeed] = useState<string>('');
+  const [matrixSetup, setMatrixSetup] = useState<'current' | 'proposed'>('current');
+  const [duplicateThreshold, setDuplicateThreshold] = useState<number>(DEFAULT_DUPLICATE_THRESHOLD_PERCENT);
+  const [units, setUnits] = useState<UnitPreferences>(DEFAULT_UNIT_PREFERENCES);
   const [loading, setLoading] = useState(true);
   const router = useRouter();
 
@@ -209,6 +180,11 @@ export default function GearRatioCalculatorPage() {
 
       const { data: profileData } = await supabase.from('profiles').select('*').eq('id', user.id).single();
       setProfile(profileData);
+      setUnits(resolveUnitPreferences(profileData?.unit_preferences));
+      if (profileData?.cadence_band) {
+        setCadenceBand(profileData.cadence_band);
+        setCadenceBandDraft({ minRpm: String(profileData.cadence_band.minRpm), maxRpm: String(profileData.cadence_band.maxRpm) });
+      }
 
       if (profileData?.subscription_status !== 'premium') { router.push('/calculators?upgrade=gear-ratio'); return; }
 
@@ -312,16 +288,38 @@ export default function GearRatioCalculatorPage() {
     const crankset = allProducts.find(comp => comp.product_type === 'crankset');
     const cassette = allProducts.find(comp => comp.product_type === 'cassette');
     const wheel = allProducts.find(comp => comp.product_type === 'wheel');
-    setCurrentSetup({ crankset, cassette, wheelCircumference: wheel?.wheels?.circumference_mm || 2100 });
+    setCurrentSetup({ crankset, cassette, wheelCircumference: wheel?.wheels?.circumference_mm || getWheelCircumferenceMm(wheel?.wheels?.wheel_diameter_iso_mm) });
     setProposedSetup({});
   };
 
+  // Saved when an input loses focus rather than on every keystroke. An empty or
+  // out-of-range end puts the inputs back to the saved band instead.
+  const saveCadenceBand = async () => {
+    const band = parseCadenceBand(cadenceBandDraft.minRpm, cadenceBandDraft.maxRpm);
+    if (!band) {
+      setCadenceBandDraft({ minRpm: String(cadenceBand.minRpm), maxRpm: String(cadenceBand.maxRpm) });
+      return;
+    }
+    setCadenceBand(band);
+    setCadenceBandDraft({ minRpm: String(band.minRpm), maxRpm: String(band.maxRpm) });
+    if (!user || (band.minRpm === cadenceBand.minRpm && band.maxRpm === cadenceBand.maxRpm)) return;
+    const { error } = await supabase.from('profiles').update({ cadence_band: band }).eq('id', user.id);
+    if (error) console.error('Error saving cadence band:', error);
+  };
+
   if (loading) { return <div className="min-h-screen bg-gray-50 flex items-center justify-center"><p className="text-gray-600">Loading Gear Calculator...</p></div>; }
   if (profile?.subscription_status !== 'premium') { return <div className="min-h-screen bg-gray-50"><Header /><main className="max-w-4xl mx-auto px-4 py-8"><div className="bg-white rounded-lg shadow-lg p-8 text-center"><div className="text-6xl mb-4">🔒</div><h1 className="text-2xl font-bold text-gray-900 mb-4">Premium Feature</h1><p className="text-gray-600 mb-6">The Gear Ratio Calculator is available to Premium subscribers only.</p><Link href="/upgrade" className="bg-indigo-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-colors">Upgrade to Premium</Link></div></main></div>; }
 
-  const currentGears = calculateGearRatios(currentSetup, cadence);
-  const proposedGears = calculateGearRatios(proposedSetup, cadence);
-  const comparison = compareSetups(currentSetup, proposedSetup);
+  const currentGears = calculateSetupGears(currentSetup, cadence);
+  const proposedGears = calculateSetupGears(proposedSetup, cadence);
+  const comparison = compareSetups(currentGears, proposedGears);
+  // Speeds follow the length preference: imperial riders get mph
+  const speedUnit = units.length === 'in' ? 'mph' : 'km/h';
+  const matrixGears = matrixSetup === 'proposed' && proposedGears.length > 0 ? proposedGears : currentGears.length > 0 ? currentGears : proposedGears;
+  const targetSpeedKmh = (parseFloat(targetSpeed) || 0) / (speedUnit === 'mph' ? KMH_TO_MPH : 1);
+  const speedMatches = findGearsForSpeed(matrixGears, targetSpeedKmh, cadenceBand);
+  const currentAnalysis = analyzeGears(currentGears, analysisOptions(currentSetup, duplicateThreshold));
+  const proposedAnalysis = analyzeGears(proposedGears, analysisOptions(proposedSetup, duplicateThreshold));
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -337,6 +335,9 @@ export default function GearRatioCalculatorPage() {
           <p className="text-lg text-gray-600">
             Compare your current gearing vs potential upgrades. Premium Feature.
           </p>
+          <div className="mt-4">
+            <UnitPreferencesControl userId={user?.id} value={units} onChange={setUnits} quantities={['mass', 'length']} />
+          </div>
         </div>
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
           <div className="grid md:grid-cols-3 gap-6">
@@ -397,6 +398,8 @@ export default function GearRatioCalculatorPage() {
                   setup={currentSetup} 
                   gears={currentGears}
                   cadence={cadence}
+                  units={units}
+                  speedUnit={speedUnit}
                 />
               ) : (
                 <div className="text-center py-8">
@@ -417,15 +420,124 @@ export default function GearRatioCalculatorPage() {
                 setSetup={setProposedSetup}
                 availableComponents={availableComponents}
                 currentSetup={currentSetup}
+                units={units}
               />
               {proposedGears.length > 0 && (
                 <div className="mt-6">
-                  <GearTable gears={proposedGears} cadence={cadence} />
+                  <GearTable gears={proposedGears} cadence={cadence} speedUnit={speedUnit} />
                 </div>
               )}
             </div>
           </div>
         </div>
+        {(currentAnalysis || proposedAnalysis) && (
+          <div className="mt-8 bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+            <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Gear Analysis</h2>
+                <p className="text-sm text-gray-600">Cross-chaining, near-duplicate gears and the steps between usable gears.</p>
+              </div>
+              <label className="text-sm text-gray-700">
+                Duplicate within
+                <input
+                  type="number"
+                  value={duplicateThreshold}
+                  onChange={(e) => setDuplicateThreshold(parseFloat(e.target.value) || 0)}
+                  className="mx-2 w-16 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  min="0"
+                  max="10"
+                  step="0.5"
+                />
+                %
+              </label>
+            </div>
+            <div className="grid lg:grid-cols-2 gap-8">
+              {currentAnalysis && <GearAnalysisPanel title="Current Setup" analysis={currentAnalysis} />}
+              {proposedAnalysis && <GearAnalysisPanel title="Proposed Setup" analysis={proposedAnalysis} />}
+            </div>
+          </div>
+        )}
+        {matrixGears.length > 0 && (
+          <div className="mt-8 bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+            <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Speed at Cadence</h2>
+                <p className="text-sm text-gray-600">Speed in every gear from {matrixGears[0].speedByCadence[0].cadence} to {matrixGears[0].speedByCadence[matrixGears[0].speedByCadence.length - 1].cadence} RPM, with your cadence band shaded.</p>
+              </div>
+              {currentGears.length > 0 && proposedGears.length > 0 && (
+                <select
+                  value={matrixSetup}
+                  onChange={(e) => setMatrixSetup(e.target.value as 'current' | 'proposed')}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="current">Current setup</option>
+                  <option value="proposed">Proposed setup</option>
+                </select>
+              )}
+            </div>
+            <div className="grid md:grid-cols-2 gap-6 mb-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Preferred Cadence Band (RPM)</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    value={cadenceBandDraft.minRpm}
+                    onChange={(e) => setCadenceBandDraft({ ...cadenceBandDraft, minRpm: e.target.value })}
+                    onBlur={saveCadenceBand}
+                    className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    min={CADENCE_BAND_LIMITS.minRpm}
+                    max={CADENCE_BAND_LIMITS.maxRpm}
+                  />
+                  <span className="text-gray-500">to</span>
+                  <input
+                    type="number"
+                    value={cadenceBandDraft.maxRpm}
+                    onChange={(e) => setCadenceBandDraft({ ...cadenceBandDraft, maxRpm: e.target.value })}
+                    onBlur={saveCadenceBand}
+                    className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    min={CADENCE_BAND_LIMITS.minRpm}
+                    max={CADENCE_BAND_LIMITS.maxRpm}
+                  />
+                </div>
+                <p className="mt-1 text-xs text-gray-500">{CADENCE_BAND_LIMITS.minRpm}-{CADENCE_BAND_LIMITS.maxRpm} RPM, saved to your profile.</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Which gears hold this speed in my band? ({speedUnit})</label>
+                <input
+                  type="number"
+                  value={targetSpeed}
+                  onChange={(e) => setTargetSpeed(e.target.value)}
+                  placeholder={speedUnit === 'mph' ? 'e.g., 18' : 'e.g., 30'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  min="0"
+                />
+                {targetSpeedKmh > 0 && (
+                  <p className="mt-2 text-sm text-gray-700">
+                    {speedMatches.length > 0
+                      ? speedMatches.map(match => `${match.gear.chainring}×${match.gear.cog} @ ${Math.round(match.cadence)} rpm`).join(', ')
+                      : `No gear holds ${targetSpeed} ${speedUnit} between ${cadenceBand.minRpm} and ${cadenceBand.maxRpm} RPM.`}
+                  </p>
+                )}
+              </div>
+            </div>
+            <CadenceSpeedMatrix gears={matrixGears} band={cadenceBand} speedUnit={speedUnit} matches={speedMatches} />
+          </div>
+        )}
+        {(currentGears.length > 0 || proposedGears.length > 0) && (
+          <div className="mt-8 bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+            <h2 className="text-xl font-semibold text-gray-900">Climbing Planner</h2>
+            <p className="text-sm text-gray-600 mb-6">Check whether your easiest gear is low enough for a climb at the power you can hold.</p>
+            <ClimbingPlanner
+              currentSetup={currentSetup}
+              currentGears={currentGears}
+              proposedSetup={proposedSetup}
+              proposedGears={proposedGears}
+              availableComponents={availableComponents}
+              units={units}
+              speedUnit={speedUnit}
+            />
+          </div>
+        )}
         {currentGears.length > 0 && proposedGears.length > 0 && (
           <div className="mt-8 bg-white rounded-lg shadow-lg border border-gray-200 p-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-6">Detailed Comparison</h2>
@@ -434,6 +546,7 @@ export default function GearRatioCalculatorPage() {
               proposedGears={proposedGears}
               comparison={comparison}
               cadence={cadence}
+              speedUnit={speedUnit}
             />
           </div>
         )}
@@ -443,7 +556,7 @@ export default function GearRatioCalculatorPage() {
 }
 
 // --- Sub Components ---
-const CurrentSetupDisplay: FC<{ setup: GearSetup; gears: GearRatio[]; cadence: number }> = ({ setup, gears, cadence }) => {
+const CurrentSetupDisplay: FC<{ setup: GearSetup; gears: GearRatio[]; cadence: number; units: UnitPreferences; speedUnit: 'km/h' | 'mph' }> = ({ setup, gears, cadence, units, speedUnit }) => {
   if (!setup.crankset || !setup.cassette) {
     return (
       <div className="text-center py-8">
@@ -461,6 +574,9 @@ const CurrentSetupDisplay: FC<{ setup: GearSetup; gears: GearRatio[]; cadence: n
           <h4 className="font-medium text-gray-900">Crankset</h4>
           <p className="text-sm text-gray-600">{setup.crankset.brand} {setup.crankset.model}</p>
           <p className="text-xs text-gray-500">Chainrings: {setup.crankset.cranksets?.chainrings?.join(', ') || 'Not specified'}</p>
+          <p className="text-xs text-gray-500">
+            Crank length: {setup.crankset.cranksets?.arm_length_mm ? `${setup.crankset.cranksets.arm_length_mm} mm` : `not specified (gain ratios assume ${DEFAULT_CRANK_LENGTH_MM} mm)`}
+          </p>
         </div>
         <div className="border-l-4 border-blue-500 pl-3">
           <h4 className="font-medium text-gray-900">Cassette</h4>
@@ -470,16 +586,16 @@ const CurrentSetupDisplay: FC<{ setup: GearSetup; gears: GearRatio[]; cadence: n
         {setup.wheelCircumference && (
           <div className="border-l-4 border-blue-500 pl-3">
             <h4 className="font-medium text-gray-900">Wheel Circumference</h4>
-            <p className="text-sm text-gray-600">{setup.wheelCircumference} mm</p>
+            <p className="text-sm text-gray-600">{formatLength(setup.wheelCircumference, units.length)}</p>
             <p className="text-xs text-gray-500">This value is used for speed calculations</p>
           </div>
         )}
       </div>
-      {gears.length > 0 && <GearTable gears={gears} cadence={cadence} />}
+      {gears.length > 0 && <GearTable gears={gears} cadence={cadence} speedUnit={speedUnit} />}
     </div>
   );
 };
-const ProposedSetupForm: FC<{ setup: GearSetup; setSetup: (setup: GearSetup) => void; availableComponents: Component[]; currentSetup: GearSetup; }> = ({ setup, setSetup, availableComponents, currentSetup }) => {
+const ProposedSetupForm: FC<{ setup: GearSetup; setSetup: (setup: GearSetup) => void; availableComponents: Component[]; currentSetup: GearSetup; units: UnitPreferences; }> = ({ setup, setSetup, availableComponents, currentSetup, units }) => {
   const cranksets = availableComponents.filter(c => c.product_type === 'crankset');
   const cassettes = availableComponents.filter(c => c.product_type === 'cassette');
   
@@ -489,7 +605,7 @@ const ProposedSetupForm: FC<{ setup: GearSetup; setSetup: (setup: GearSetup) =>
       setSetup({
         ...setup,
         [type]: component,
-        wheelCircumference: setup.wheelCircumference || currentSetup.wheelCircumference || 2100
+        wheelCircumference: setup.wheelCircumference || currentSetup.wheelCircumference || DEFAULT_WHEEL_CIRCUMFERENCE_MM
       });
     }
   };
@@ -527,39 +643,55 @@ const ProposedSetupForm: FC<{ setup: GearSetup; setSetup: (setup: GearSetup) =>
         </select>
       </div>
       <div>
-        <label className="block text-sm font-medium text-gray-700 mb-2">Wheel Circumference (mm)</label>
-        <input
-          type="number"
+        <label className="block text-sm font-medium text-gray-700 mb-2">Wheel Circumference ({unitLabel('length', units.length)})</label>
+        <UnitInput
+          quantity="length"
+          unit={units.length}
           value={setup.wheelCircumference || ''}
-          onChange={(e) => setSetup({ ...setup, wheelCircumference: parseInt(e.target.value) || undefined })}
-          placeholder={`e.g., ${currentSetup.wheelCircumference || 2100} (from current bike)`}
+          onChange={(value) => setSetup({ ...setup, wheelCircumference: value || undefined })}
+          placeholder={`e.g., ${formatLength(currentSetup.wheelCircumference || DEFAULT_WHEEL_CIRCUMFERENCE_MM, units.length)} (from current bike)`}
           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
-          min="1000"
-          max="3000"
+          min={1000}
+          max={3000}
         />
         <p className="mt-1 text-xs text-gray-500">Overrides the selected bike&rsquo;s wheel circumference for this comparison.</p>
       </div>
     </div>
   );
 };
-const GearTable: FC<{ gears: GearRatio[]; cadence: number }> = ({ gears, cadence }) => (
+const GearTable: FC<{ gears: GearRatio[]; cadence: number; speedUnit: 'km/h' | 'mph' }> = ({ gears, cadence, speedUnit }) => (
   <div>
     <h4 className="font-medium text-gray-900 mb-3">Gear Ratios @ {cadence} RPM</h4>
-    <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-md">
+    <div className="max-h-64 overflow-auto border border-gray-200 rounded-md">
       <table className="w-full text-sm">
         <thead className="bg-gray-50 sticky top-0">
           <tr>
             <th className="px-3 py-2 text-left">Gear</th>
             <th className="px-3 py-2 text-left">Ratio</th>
+            <th className="px-3 py-2 text-left" title="Ratio × wheel diameter">Gear In.</th>
+            <th className="px-3 py-2 text-left" title="Distance per crank revolution">Dev.</th>
+            <th className="px-3 py-2 text-left" title="Sheldon Brown gain ratio: wheel radius / crank length × ratio">Gain</th>
+            <th className="px-3 py-2 text-left" title="Skid patches, same foot forward (either foot)">Skid</th>
+            <th className="px-3 py-2 text-left" title="Estimated drivetrain efficiency: chain articulation, chain angle, bearings and pulleys">Eff.</th>
             <th className="px-3 py-2 text-left">Speed</th>
           </tr>
         </thead>
         <tbody className="divide-y divide-gray-200">
           {gears.map(gear => (
             <tr key={`${gear.chainring}-${gear.cog}`} className="hover:bg-gray-50">
-              <td className="px-3 py-2">{gear.chainring}t → {gear.cog}t</td>
+              <td className="px-3 py-2 whitespace-nowrap">{gear.chainring}t → {gear.cog}t</td>
               <td className="px-3 py-2">{gear.ratio}</td>
-              <td className="px-3 py-2">{gear.speedAt90rpm} km/h</td>
+              <td className="px-3 py-2">{gear.gearInches}&quot;</td>
+              <td className="px-3 py-2 whitespace-nowrap">{gear.developmentM} m</td>
+              <td className="px-3 py-2">{gear.gainRatio}</td>
+              <td className="px-3 py-2">{gear.skidPatches}{gear.skidPatchesAmbidextrous !== gear.skidPatches && ` (${gear.skidPatchesAmbidextrous})`}</td>
+              <td
+                className="px-3 py-2"
+                title={`Articulation ${gear.losses.articulationPercent}%, chain angle ${gear.losses.chainAnglePercent}% (${gear.chainAngleDeg}°), bearings and pulleys ${gear.losses.fixedPercent}%`}
+              >
+                {gear.efficiencyPercent}%
+              </td>
+              <td className="px-3 py-2 whitespace-nowrap">{speedUnit === 'mph' ? gear.speedAt90rpmMph : gear.speedAt90rpm} {speedUnit}</td>
             </tr>
           ))}
         </tbody>
@@ -567,7 +699,183 @@ const GearTable: FC<{ gears: GearRatio[]; cadence: number }> = ({ gears, cadence
     </div>
   </div>
 );
-const DetailedComparison: FC<{ currentGears: GearRatio[]; proposedGears: GearRatio[]; comparison: ComparisonResult; cadence: number; }> = ({ currentGears, proposedGears, comparison, cadence }) => (
+const describeFrontShift = (step: ShiftStep): string => {
+  const cogs = Math.abs(step.rearCompensation);
+  if (cogs === 0) return `Front to ${step.gear.chainring}t`;
+  return `Front to ${step.gear.chainring}t, ${cogs} cog${cogs === 1 ? '' : 's'} ${step.rearCompensation > 0 ? 'bigger' : 'smaller'} at the back`;
+};
+const GearAnalysisPanel: FC<{ title: string; analysis: GearAnalysis }> = ({ title, analysis }) => {
+  const { geometry, gears, duplicates, usableGears, steps, shiftSequence, efficiency } = analysis;
+  const extremeCount = gears.filter(gear => gear.crossChain === 'extreme').length;
+  const largestStep = steps.reduce<GearStep | null>((largest, step) => !largest || step.stepPercent > largest.stepPercent ? step : largest, null);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="font-medium text-gray-900">{title}</h3>
+        <p className="text-sm text-gray-600">
+          {usableGears.length} usable of {gears.length} combinations
+          {extremeCount > 0 && ` • ${extremeCount} cross-chained`}
+          {duplicates.length > 0 && ` • ${duplicates.length} near-duplicate${duplicates.length === 1 ? '' : 's'}`}
+        </p>
+        <p className="text-xs text-gray-500">
+          Chainline {geometry.frontChainlineMm} mm{geometry.estimated ? ' (estimated)' : ''}, {geometry.chainstayMm} mm chainstay assumed
+        </p>
+      </div>
+      <GearChart analysis={analysis} />
+      {efficiency && (
+        <div className="bg-gray-50 rounded-lg p-3 text-sm text-gray-700">
+          <p>
+            Drivetrain efficiency {efficiency.averageEfficiencyPercent}% on average across usable gears
+            (about {efficiency.averageLossWatts} W lost at {REFERENCE_POWER_WATTS} W).
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            Best {efficiency.best.chainring}t × {efficiency.best.cog}t at {efficiency.best.efficiencyPercent}%,
+            worst {efficiency.worst.chainring}t × {efficiency.worst.cog}t at {efficiency.worst.efficiencyPercent}%.
+            Small cogs and steep chain angles cost the most.
+          </p>
+        </div>
+      )}
+      {largestStep && (
+        <p className="text-sm text-gray-700">
+          Largest step: {largestStep.stepPercent}% ({largestStep.from.chainring}t × {largestStep.from.cog}t → {largestStep.to.chainring}t × {largestStep.to.cog}t)
+        </p>
+      )}
+      {duplicates.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-1">Near-Duplicate Gears</h4>
+          <ul className="text-sm text-gray-600 space-y-1">
+            {duplicates.map(pair => (
+              <li key={`${pair.kept.chainring}-${pair.kept.cog}`}>
+                {pair.dropped.chainring}t × {pair.dropped.cog}t ≈ {pair.kept.chainring}t × {pair.kept.cog}t ({pair.differencePercent}% apart, use the latter)
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {shiftSequence.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-1">Shift Sequence</h4>
+          <ol className="text-sm text-gray-600 flex flex-wrap gap-x-2 gap-y-1">
+            {shiftSequence.map(step => (
+              <li key={`${step.gear.chainring}-${step.gear.cog}`} className={step.frontShift ? 'font-medium text-indigo-700' : ''}>
+                {step.frontShift && `${describeFrontShift(step)}: `}
+                {step.gear.chainring}×{step.gear.cog}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+const ClimbCheckResult: FC<{ label: string; check: DrivetrainClimbCheck | null }> = ({ label, check }) => {
+  if (!check) return null;
+  return (
+    <div className={`rounded-lg p-4 border ${check.lowEnough ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+      <h4 className={`font-medium ${check.lowEnough ? 'text-green-900' : 'text-red-900'}`}>{label}: {check.lowEnough ? 'Low enough' : 'Not low enough'}</h4>
+      <p className="text-sm text-gray-700">
+        Easiest gear {check.lowestGear.chainring}t × {check.lowestGear.cog}t ({check.lowestGear.efficiencyPercent}% efficient) turns at {check.cadenceInLowest} RPM on this climb
+        ({check.marginPercent > 0 ? `${check.marginPercent}% to spare` : check.marginPercent < 0 ? `${-check.marginPercent}% too tall` : 'exactly enough'}).
+      </p>
+    </div>
+  );
+};
+const ClimbingPlanner: FC<{ currentSetup: GearSetup; currentGears: GearRatio[]; proposedSetup: GearSetup; proposedGears: GearRatio[]; availableComponents: Component[]; units: UnitPreferences; speedUnit: 'km/h' | 'mph'; }> = ({ currentSetup, currentGears, proposedSetup, proposedGears, availableComponents, units, speedUnit }) => {
+  const [inputs, setInputs] = useState<ClimbPlanInputs>({ systemWeightLbs: 190, powerWatts: 200, gradientPercent: 8, minCadenceRpm: DEFAULT_MIN_CLIMB_CADENCE, surfaceType: 'pavement' });
+
+  const referenceSetup = currentGears.length > 0 ? currentSetup : proposedSetup;
+  const plan = planClimb(inputs, referenceSetup.wheelCircumference || DEFAULT_WHEEL_CIRCUMFERENCE_MM);
+  const checkFor = (setup: GearSetup, gears: GearRatio[]) => {
+    const setupPlan = planClimb(inputs, setup.wheelCircumference || DEFAULT_WHEEL_CIRCUMFERENCE_MM);
+    return setupPlan ? checkDrivetrainForClimb(gears, setupPlan) : null;
+  };
+  const currentCheck = checkFor(currentSetup, currentGears);
+  const proposedCheck = checkFor(proposedSetup, proposedGears);
+
+  const cranksetOptions: CranksetOption[] = availableComponents
+    .filter(c => c.product_type === 'crankset' && c.cranksets?.chainrings?.length)
+    .map(c => ({ id: c.id, label: `${c.brand} ${c.model} (${c.cranksets!.chainrings.join('/')})`, chainrings: c.cranksets!.chainrings, speeds: c.cranksets!.speeds, chainlineMm: c.cranksets!.chainline_mm }));
+  const cassetteOptions: CassetteOption[] = availableComponents
+    .filter(c => c.product_type === 'cassette' && c.cassettes?.cogs?.length)
+    .map(c => ({ id: c.id, label: `${c.brand} ${c.model} (${Math.min(...c.cassettes!.cogs)}-${Math.max(...c.cassettes!.cogs)})`, cogs: c.cassettes!.cogs, speeds: c.cassettes!.speeds }));
+  const recommendations = plan ? recommendCombinations(cranksetOptions, cassetteOptions, plan) : [];
+
+  const formatSpeed = (kmh: number) => speedUnit === 'mph' ? `${Math.round(kmh * KMH_TO_MPH * 10) / 10} mph` : `${kmh} km/h`;
+  const setNumber = (field: keyof ClimbPlanInputs, value: string) => setInputs({ ...inputs, [field]: parseFloat(value) || 0 });
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+  return (
+    <div className="space-y-6">
+      <div className="grid md:grid-cols-5 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Rider + Bike ({unitLabel('mass', units.mass)})</label>
+          <UnitInput
+            quantity="mass"
+            unit={units.mass}
+            value={inputs.systemWeightLbs || ''}
+            onChange={(value) => setInputs({ ...inputs, systemWeightLbs: value || 0 })}
+            className={inputClass}
+            min={60}
+            max={500}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Sustainable Power (W)</label>
+          <input type="number" value={inputs.powerWatts || ''} onChange={(e) => setNumber('powerWatts', e.target.value)} className={inputClass} min="50" max="600" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Gradient (%)</label>
+          <input type="number" value={inputs.gradientPercent} onChange={(e) => setNumber('gradientPercent', e.target.value)} className={inputClass} min="0" max="30" step="0.5" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Minimum Cadence (RPM)</label>
+          <input type="number" value={inputs.minCadenceRpm || ''} onChange={(e) => setNumber('minCadenceRpm', e.target.value)} className={inputClass} min="40" max="100" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Surface</label>
+          <select value={inputs.surfaceType} onChange={(e) => setInputs({ ...inputs, surfaceType: e.target.value as SurfaceType })} className={inputClass}>
+            <option value="pavement">Smooth Pavement</option>
+            <option value="poor_pavement">Rough Pavement</option>
+            <option value="mixed">Mixed Surface</option>
+            <option value="gravel_hardpack">Gravel (Hardpack)</option>
+            <option value="gravel_loose">Gravel (Loose)</option>
+          </select>
+        </div>
+      </div>
+      {plan && (
+        <>
+          <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-700">
+            <p>
+              At {inputs.powerWatts} W you climb {inputs.gradientPercent}% at about <span className="font-semibold">{formatSpeed(plan.speedKmh)}</span>.
+              Holding {inputs.minCadenceRpm} RPM needs a gear of {plan.requiredRatio} or lower.
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              Power split: {plan.powerSplit.gravityWatts} W climbing, {plan.powerSplit.rollingWatts} W rolling resistance, {plan.powerSplit.aeroWatts} W aero, {plan.powerSplit.drivetrainWatts} W drivetrain.
+            </p>
+          </div>
+          <div className="grid md:grid-cols-2 gap-4">
+            <ClimbCheckResult label="Current" check={currentCheck} />
+            <ClimbCheckResult label="Proposed" check={proposedCheck} />
+          </div>
+          {recommendations.length > 0 && (
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Combinations That Get You Up</h4>
+              <ul className="text-sm text-gray-700 space-y-1">
+                {recommendations.map(rec => (
+                  <li key={`${rec.crankset.id}-${rec.cassette.id}`}>
+                    {rec.crankset.label} + {rec.cassette.label}: easiest {rec.lowestRatio} ({rec.cadenceInLowest} RPM, {rec.efficiencyPercent}% efficient), top gear {rec.highestRatio}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+const DetailedComparison: FC<{ currentGears: GearRatio[]; proposedGears: GearRatio[]; comparison: ComparisonResult; cadence: number; speedUnit: 'km/h' | 'mph'; }> = ({ currentGears, proposedGears, comparison, cadence, speedUnit }) => (
   <div className="space-y-6">
     <div className="grid md:grid-cols-3 gap-4">
       <div className="bg-green-50 rounded-lg p-4 border border-green-200">
@@ -589,11 +897,11 @@ const DetailedComparison: FC<{ currentGears: GearRatio[]; proposedGears: GearRat
     <div className="grid md:grid-cols-2 gap-6">
       <div>
         <h4 className="font-medium text-gray-900 mb-3">Current Gearing</h4>
-        <GearTable gears={currentGears} cadence={cadence} />
+        <GearTable gears={currentGears} cadence={cadence} speedUnit={speedUnit} />
       </div>
       <div>
         <h4 className="font-medium text-gray-900 mb-3">Proposed Gearing</h4>
-        <GearTable gears={proposedGears} cadence={cadence} />
+        <GearTable gears={proposedGears} cadence={cadence} speedUnit={speedUnit} />
       </div>
     </div>
   </div>
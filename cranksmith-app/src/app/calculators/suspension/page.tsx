@@ -4,14 +4,40 @@ import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useRouter } from 'next/navigation'
 import Header from '@/components/Header'
+import DamperSettingsList from '@/components/DamperSettingsList'
+import SagLogPanel from '@/components/SagLogPanel'
+import SaveSnapshotPanel from '@/components/SaveSnapshotPanel'
+import SpecResolutionSummary from '@/components/SpecResolutionSummary'
+import SpringCurveChart from '@/components/SpringCurveChart'
+import UnitInput from '@/components/UnitInput'
+import UnitPreferencesControl from '@/components/UnitPreferencesControl'
 import Link from 'next/link'
 import { 
   calculateSuspensionSetup, 
-  getForkSpecs, 
-  SHOCK_DATABASE,
   type SuspensionCalculationInputs,
-  type SuspensionResult
+  type SuspensionResult,
+  type SuspensionSpecs
 } from '@/lib/suspension-logic'
+import { parsePressureChart } from '@/lib/pressure-chart'
+import {
+  fetchSuspensionProducts,
+  findSuspensionProduct,
+  getForkSpecs,
+  getShockSpecs,
+  type SuspensionProduct
+} from '@/lib/suspension-catalog'
+import type { ResolvedSpecs, SpecQuery } from '@/lib/spec-resolution'
+import { learnSagBias, type SagLogEntry } from '@/lib/sag-correction'
+import { fetchSnapshot, toSnapshotComponent, type SetupSnapshot } from '@/lib/setup-snapshots'
+import { FRAME_KINEMATICS, frameKey, getFrameKinematics } from '@/lib/frame-kinematics'
+import {
+  DEFAULT_UNIT_PREFERENCES,
+  fromCanonical,
+  resolveUnitPreferences,
+  roundForUnit,
+  unitLabel,
+  type UnitPreferences
+} from '@/lib/units'
 
 interface SuspensionComponent {
   id: string
@@ -24,19 +50,31 @@ interface SuspensionComponent {
   component_categories: {
     name: string
   }
-  shocks?: {
-    travel_mm?: number
-    stanchion_diameter_mm?: number
-    max_pressure_psi?: number
-    recommended_sag_percent?: number
-    spring_curve?: 'linear' | 'progressive' | 'digressive'
-  }
 }
 
 interface BikeComponent {
   components: SuspensionComponent
 }
 
+// Attaches the manufacturer chart saved with a garage component, when it can be read.
+function withManufacturerChart(specs: SuspensionSpecs, component: SuspensionComponent): SuspensionSpecs {
+  const chart = parsePressureChart(component.manufacturer_pressure_chart, specs.recommended_sag_percent)
+  if (!chart) return specs
+  return {
+    ...specs,
+    baseline_pressure_chart: chart,
+    baseline_pressure_chart_source: `${component.brand} ${component.model} manufacturer pressure chart`
+  }
+}
+
+// The garage component and inputs behind a result, so measured sag can be logged
+// against it and the result saved as a snapshot
+interface SagLogTarget {
+  bikeId: string
+  componentId: string
+  inputs: SuspensionCalculationInputs
+}
+
 interface Bike {
   id: string
   nickname: string
@@ -58,7 +96,19 @@ export default function SuspensionCalculator() {
   const [gearWeight, setGearWeight] = useState(7)
   const [ridingStyle, setRidingStyle] = useState<'xc' | 'trail' | 'enduro' | 'dh' | 'casual'>('trail')
   const [customSag, setCustomSag] = useState<number | undefined>(undefined)
+  const [forkSpacers, setForkSpacers] = useState<number | undefined>(undefined) // undefined = recommended
+  const [shockSpacers, setShockSpacers] = useState<number | undefined>(undefined)
+  const [rearWheelTravel, setRearWheelTravel] = useState<number | undefined>(undefined)
+  const [selectedFrameKey, setSelectedFrameKey] = useState('') // '' = detect from the garage bike
+  const [frameSize, setFrameSize] = useState('')
+  const [forkModelYear, setForkModelYear] = useState<number | undefined>(undefined)
+  const [forkAirSpring, setForkAirSpring] = useState('')
+  const [shockModelYear, setShockModelYear] = useState<number | undefined>(undefined)
+  const [shockStroke, setShockStroke] = useState<number | undefined>(undefined) // Only needed for shocks not in the catalog
+  const [shockStrokeMissing, setShockStrokeMissing] = useState(false)
+  const [wheelSize, setWheelSize] = useState('')
   const [useGarageMode, setUseGarageMode] = useState(true)
+  const [units, setUnits] = useState<UnitPreferences>(DEFAULT_UNIT_PREFERENCES)
   
   // Manual fork selection for non-garage mode
   const [manualForkBrand, setManualForkBrand] = useState('')
@@ -68,18 +118,23 @@ export default function SuspensionCalculator() {
   
   // Manual shock selection for non-garage mode
   const [manualShockBrand, setManualShockBrand] = useState('')
-  const [manualShockModel, setManualShockModel] = useState('')
+  const [manualShockProductId, setManualShockProductId] = useState('')
   
   // Results
   const [forkResult, setForkResult] = useState<SuspensionResult | null>(null)
   const [shockResult, setShockResult] = useState<SuspensionResult | null>(null)
+  const [forkResolution, setForkResolution] = useState<ResolvedSpecs | null>(null)
+  const [shockResolution, setShockResolution] = useState<ResolvedSpecs | null>(null)
+  const [forkSagTarget, setForkSagTarget] = useState<SagLogTarget | null>(null)
+  const [shockSagTarget, setShockSagTarget] = useState<SagLogTarget | null>(null)
+  const [sagLogs, setSagLogs] = useState<SagLogEntry[]>([])
+  const [restoredSnapshot, setRestoredSnapshot] = useState<SetupSnapshot | null>(null)
   
-  // Shock brands and models for manual selection
-  const shockBrands = ['Fox', 'RockShox']
-  const shockModels: Record<string, string[]> = {
-    'Fox': ['Float X2', 'Float DPS'],
-    'RockShox': ['Super Deluxe', 'Deluxe']
-  }
+  // Forks and shocks with specs in the products catalog
+  const [forkProducts, setForkProducts] = useState<SuspensionProduct[]>([])
+  const [shockProducts, setShockProducts] = useState<SuspensionProduct[]>([])
+  const forkBrands = [...new Set(forkProducts.map(product => product.brand))]
+  const shockBrands = [...new Set(shockProducts.map(product => product.brand))]
   
   const router = useRouter()
 
@@ -98,7 +153,7 @@ export default function SuspensionCalculator() {
     // Fetch user profile
     const { data: profileData, error: profileError } = await supabase
       .from('profiles')
-      .select('id, subscription_status')
+      .select('id, subscription_status, unit_preferences')
       .eq('id', user.id)
       .single()
 
@@ -106,13 +161,20 @@ export default function SuspensionCalculator() {
       console.error('Error fetching profile:', profileError)
     } else {
       setProfile(profileData)
+      setUnits(resolveUnitPreferences(profileData?.unit_preferences))
     }
 
-    await loadBikes(user.id)
+    const loadedBikes = await loadBikes(user.id)
+    await loadSagLogs(user.id)
+    await loadCatalog()
+
+    // Opened from a bike's saved setups
+    const snapshotId = new URLSearchParams(window.location.search).get('snapshot')
+    if (snapshotId) await restoreSnapshot(snapshotId, loadedBikes)
     setLoading(false)
   }
 
-  const loadBikes = async (userId: string) => {
+  const loadBikes = async (userId: string): Promise<Bike[]> => {
     const { data: bikesData, error } = await supabase
       .from('bikes')
       .select(`
@@ -137,7 +199,7 @@ export default function SuspensionCalculator() {
 
     if (error) {
       console.error('Error fetching bikes:', error)
-      return
+      return []
     }
 
     const transformedBikes = (bikesData || []).map((bike: any) => ({
@@ -159,12 +221,70 @@ export default function SuspensionCalculator() {
     )
 
     setBikes(mtbBikes as Bike[])
+    return mtbBikes as Bike[]
+  }
+
+  // Puts a saved setup's inputs back in the form and shows its results as saved
+  const restoreSnapshot = async (snapshotId: string, loadedBikes: Bike[]) => {
+    const snapshot = await fetchSnapshot(snapshotId)
+    if (!snapshot) return
+
+    const { settings } = snapshot
+    setUseGarageMode(true)
+    setSelectedBike(loadedBikes.find(bike => bike.id === snapshot.bike_id) || null)
+    setRiderWeight(snapshot.rider_weight_lbs)
+    setGearWeight(snapshot.gear_weight_lbs)
+    setRidingStyle(snapshot.riding_style)
+    setCustomSag(settings.targetSagPercent)
+    if (settings.forkTravelMm) setManualTravel(settings.forkTravelMm)
+    setForkSpacers(settings.forkSpacers)
+    setShockSpacers(settings.shockSpacers)
+    setRearWheelTravel(settings.rearWheelTravelMm)
+    setSelectedFrameKey(settings.frameKey ?? '')
+    setFrameSize(settings.frameSize ?? '')
+    setForkModelYear(settings.forkModelYear)
+    setForkAirSpring(settings.forkAirSpring ?? '')
+    setShockModelYear(settings.shockModelYear)
+    setWheelSize(settings.wheelSize ?? '')
+    setForkResult(snapshot.fork)
+    setShockResult(snapshot.shock)
+    setRestoredSnapshot(snapshot)
+  }
+
+  const loadSagLogs = async (userId: string) => {
+    const { data, error } = await supabase
+      .from('sag_logs')
+      .select('*')
+      .eq('user_id', userId)
+      .order('logged_on', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching sag logs:', error)
+      return
+    }
+
+    setSagLogs(data || [])
   }
 
-  const calculateSetup = () => {
+  const loadCatalog = async () => {
+    const [forks, shocks] = await Promise.all([
+      fetchSuspensionProducts('fork'),
+      fetchSuspensionProducts('shock')
+    ])
+    setForkProducts(forks)
+    setShockProducts(shocks)
+  }
+
+  const calculateSetup = async () => {
     setCalculating(true)
+    setRestoredSnapshot(null)
     setForkResult(null)
     setShockResult(null)
+    setForkResolution(null)
+    setShockResolution(null)
+    setForkSagTarget(null)
+    setShockSagTarget(null)
+    setShockStrokeMissing(false)
 
     let forkComponent: SuspensionComponent | undefined
 
@@ -188,8 +308,19 @@ export default function SuspensionCalculator() {
 
     // Calculate fork setup
     if (forkComponent) {
-      // Try to get detailed specs from our database
-      let forkSpecs = getForkSpecs(forkComponent.brand, forkComponent.model, manualTravel)
+      // Try to get detailed specs from the catalog, for this model year and travel.
+      // The travel selector is only shown for manual entry; a garage fork's travel is
+      // left to the catalog rather than the selector's hidden default.
+      const forkProduct = findSuspensionProduct(forkProducts, forkComponent.brand, forkComponent.model)
+      const forkQuery: SpecQuery = {
+        modelYear: forkModelYear,
+        travelMm: forkComponent.id === 'manual' ? manualTravel : undefined,
+        airSpring: forkAirSpring || undefined,
+        wheelSize: wheelSize || undefined
+      }
+      const resolvedFork = forkProduct ? await getForkSpecs(forkProduct.id, forkQuery) : null
+      setForkResolution(resolvedFork)
+      let forkSpecs = resolvedFork?.specs
       
       // If not in database, create specs from component data
       if (!forkSpecs) {
@@ -200,58 +331,98 @@ export default function SuspensionCalculator() {
           stanchion_diameter_mm: manualStanchionSize,
           max_pressure_psi: 300, // Safe default
           recommended_sag_percent: 25,
-          spring_curve: 'linear' as const
+          spring_curve: 'linear' as const,
+          estimated: true
         }
       }
 
       const inputs: SuspensionCalculationInputs = {
         riderWeightLbs: riderWeight,
         gearWeightLbs: gearWeight,
-        forkSpecs,
+        forkSpecs: withManufacturerChart(forkSpecs, forkComponent),
         ridingStyle,
-        targetSagPercent: customSag
+        targetSagPercent: customSag,
+        volumeSpacers: forkSpacers,
+        sagBias: learnSagBias(sagLogs, 'fork')?.sagBias,
+        units
       }
 
       const result = calculateSuspensionSetup(inputs)
       setForkResult(result)
+      if (useGarageMode && selectedBike && forkComponent.id !== 'manual') {
+        setForkSagTarget({ bikeId: selectedBike.id, componentId: forkComponent.id, inputs })
+      }
     }
 
+    // Frame leverage curve for the shock, chosen or detected from the garage bike
+    const chosenFrame = FRAME_KINEMATICS.find(frame => frameKey(frame) === selectedFrameKey)
+    const frameKinematics = (chosenFrame
+      ? getFrameKinematics(chosenFrame.brand, chosenFrame.model, frameSize)
+      : useGarageMode && selectedBike
+        ? getFrameKinematics(selectedBike.brand, selectedBike.model, frameSize)
+        : null) ?? undefined
+
     // Shock calculation logic
     if (selectedBike && useGarageMode) {
       const allProducts = selectedBike.bike_components.map(bc => bc.components);
       const shockComponent = allProducts.find(comp => comp.component_categories.name === 'Shock');
       if (shockComponent) {
+        const shockProduct = findSuspensionProduct(shockProducts, shockComponent.brand, shockComponent.model)
+        const resolvedShock = shockProduct ? await getShockSpecs(shockProduct.id, { modelYear: shockModelYear }) : null
+        setShockResolution(resolvedShock)
+
+        // A shock outside the catalog needs its stroke from the rider or the frame;
+        // wheel travel is no stand-in for it
+        const stroke = shockStroke ?? frameKinematics?.shockStrokeMm
+        if (!resolvedShock && !stroke) {
+          setShockStrokeMissing(true)
+          setCalculating(false)
+          return
+        }
+
         const shockInputs: SuspensionCalculationInputs = {
           riderWeightLbs: riderWeight,
           gearWeightLbs: gearWeight,
-          shockSpecs: {
+          shockSpecs: withManufacturerChart(resolvedShock?.specs ?? {
             brand: shockComponent.brand || 'Unknown',
             model: shockComponent.model || 'Unknown',
-            travel_mm: shockComponent.shocks?.travel_mm || 150,
-            stanchion_diameter_mm: shockComponent.shocks?.stanchion_diameter_mm || 40,
-            max_pressure_psi: shockComponent.shocks?.max_pressure_psi || 300,
-            recommended_sag_percent: shockComponent.shocks?.recommended_sag_percent || 30,
-            spring_curve: shockComponent.shocks?.spring_curve || 'progressive'
-          },
+            travel_mm: stroke!,
+            stanchion_diameter_mm: 40,
+            max_pressure_psi: 300,
+            recommended_sag_percent: 30,
+            spring_curve: 'progressive',
+            estimated: true
+          }, shockComponent),
           ridingStyle,
-          targetSagPercent: customSag
+          targetSagPercent: customSag,
+          volumeSpacers: shockSpacers,
+          rearWheelTravelMm: rearWheelTravel,
+          frameKinematics,
+          sagBias: learnSagBias(sagLogs, 'shock')?.sagBias,
+          units
         }
 
         const shockResult = calculateSuspensionSetup(shockInputs);
         setShockResult(shockResult);
+        setShockSagTarget({ bikeId: selectedBike.id, componentId: shockComponent.id, inputs: shockInputs });
       }
-    } else if (!useGarageMode && manualShockBrand && manualShockModel) {
+    } else if (!useGarageMode && manualShockBrand && manualShockProductId) {
       // Manual shock calculation
-      const shockKey = `${manualShockBrand} ${manualShockModel}`;
-      const shockSpecs = SHOCK_DATABASE[shockKey];
+      const resolvedShock = await getShockSpecs(manualShockProductId, { modelYear: shockModelYear });
+      setShockResolution(resolvedShock);
       
-      if (shockSpecs) {
+      if (resolvedShock) {
         const shockInputs: SuspensionCalculationInputs = {
           riderWeightLbs: riderWeight,
           gearWeightLbs: gearWeight,
-          shockSpecs,
+          shockSpecs: resolvedShock.specs,
           ridingStyle,
-          targetSagPercent: customSag
+          targetSagPercent: customSag,
+          volumeSpacers: shockSpacers,
+          rearWheelTravelMm: rearWheelTravel,
+          frameKinematics,
+          sagBias: learnSagBias(sagLogs, 'shock')?.sagBias,
+          units
         }
 
         const shockResult = calculateSuspensionSetup(shockInputs);
@@ -276,6 +447,38 @@ export default function SuspensionCalculator() {
     )
   }
 
+  // Current inputs and garage results, ready to save as a snapshot
+  const snapshotDraft = (forkSagTarget || shockSagTarget) ? {
+    rider_weight_lbs: riderWeight,
+    gear_weight_lbs: gearWeight,
+    riding_style: ridingStyle,
+    settings: {
+      targetSagPercent: customSag,
+      forkTravelMm: forkSagTarget?.inputs.forkSpecs?.travel_mm,
+      forkSpacers,
+      shockSpacers,
+      rearWheelTravelMm: rearWheelTravel,
+      frameKey: selectedFrameKey || undefined,
+      frameSize: frameSize || undefined,
+      forkModelYear,
+      forkAirSpring: forkAirSpring || undefined,
+      shockModelYear,
+      wheelSize: wheelSize || undefined
+    },
+    fork: forkResult && forkSagTarget?.inputs.forkSpecs
+      ? toSnapshotComponent(forkSagTarget.inputs.forkSpecs.brand, forkSagTarget.inputs.forkSpecs.model, forkResult, sagLogs.find(log => log.component_id === forkSagTarget.componentId))
+      : null,
+    shock: shockResult && shockSagTarget?.inputs.shockSpecs
+      ? toSnapshotComponent(shockSagTarget.inputs.shockSpecs.brand, shockSagTarget.inputs.shockSpecs.model, shockResult, sagLogs.find(log => log.component_id === shockSagTarget.componentId))
+      : null
+  } : null
+
+  const handleSagLogged = (entry: SagLogEntry) => {
+    setSagLogs(current => [entry, ...current])
+  }
+
+  const displayPressure = (psi: number) => roundForUnit('pressure', fromCanonical('pressure', psi, units.pressure), units.pressure)
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -324,6 +527,14 @@ export default function SuspensionCalculator() {
           <p className="text-lg text-gray-600">
             Get baseline suspension settings based on physics and manufacturer data.
           </p>
+          <div className="mt-4">
+            <UnitPreferencesControl
+              userId={user?.id}
+              value={units}
+              onChange={setUnits}
+              quantities={['mass', 'pressure']}
+            />
+          </div>
         </div>
 
         <div className="grid lg:grid-cols-2 gap-8">
@@ -404,10 +615,9 @@ export default function SuspensionCalculator() {
                       className="w-full p-2 border border-gray-300 rounded-md"
                     >
                       <option value="">Select brand...</option>
-                      <option value="Fox">Fox</option>
-                      <option value="RockShox">RockShox</option>
-                      <option value="Manitou">Manitou</option>
-                      <option value="DVO">DVO</option>
+                      {forkBrands.map(brand => (
+                        <option key={brand} value={brand}>{brand}</option>
+                      ))}
                       <option value="Other">Other</option>
                     </select>
                   </div>
@@ -419,7 +629,15 @@ export default function SuspensionCalculator() {
                       onChange={(e) => setManualForkModel(e.target.value)}
                       placeholder="e.g., 34 Float, Pike"
                       className="w-full p-2 border border-gray-300 rounded-md"
+                      list="fork-models"
                     />
+                    <datalist id="fork-models">
+                      {forkProducts
+                        .filter(product => product.brand === manualForkBrand)
+                        .map(product => (
+                          <option key={product.id} value={product.model} />
+                        ))}
+                    </datalist>
                   </div>
                 </div>
                 
@@ -469,7 +687,7 @@ export default function SuspensionCalculator() {
                       value={manualShockBrand}
                       onChange={(e) => {
                         setManualShockBrand(e.target.value)
-                        setManualShockModel('') // Reset model when brand changes
+                        setManualShockProductId('') // Reset model when brand changes
                       }}
                       className="w-full p-2 border border-gray-300 rounded-md"
                     >
@@ -482,15 +700,17 @@ export default function SuspensionCalculator() {
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">Shock Model</label>
                     <select
-                      value={manualShockModel}
-                      onChange={(e) => setManualShockModel(e.target.value)}
+                      value={manualShockProductId}
+                      onChange={(e) => setManualShockProductId(e.target.value)}
                       className="w-full p-2 border border-gray-300 rounded-md"
                       disabled={!manualShockBrand}
                     >
                       <option value="">Select shock model...</option>
-                      {manualShockBrand && shockModels[manualShockBrand]?.map(model => (
-                        <option key={model} value={model}>{model}</option>
-                      ))}
+                      {shockProducts
+                        .filter(product => product.brand === manualShockBrand)
+                        .map(product => (
+                          <option key={product.id} value={product.id}>{product.model}</option>
+                        ))}
                     </select>
                   </div>
                 </div>
@@ -501,28 +721,30 @@ export default function SuspensionCalculator() {
             <div className="grid grid-cols-2 gap-4 mb-6">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Rider Weight (lbs)
+                  Rider Weight ({unitLabel('mass', units.mass)})
                 </label>
-                <input
-                  type="number"
+                <UnitInput
+                  quantity="mass"
+                  unit={units.mass}
                   value={riderWeight}
-                  onChange={(e) => setRiderWeight(parseInt(e.target.value) || 0)}
+                  onChange={(value) => setRiderWeight(value ?? 0)}
                   className="w-full p-2 border border-gray-300 rounded-md"
-                  min="90"
-                  max="330"
+                  min={90}
+                  max={330}
                 />
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Gear Weight (lbs)
+                  Gear Weight ({unitLabel('mass', units.mass)})
                 </label>
-                <input
-                  type="number"
+                <UnitInput
+                  quantity="mass"
+                  unit={units.mass}
                   value={gearWeight}
-                  onChange={(e) => setGearWeight(parseInt(e.target.value) || 0)}
+                  onChange={(value) => setGearWeight(value ?? 0)}
                   className="w-full p-2 border border-gray-300 rounded-md"
-                  min="0"
-                  max="45"
+                  min={0}
+                  max={45}
                 />
               </div>
             </div>
@@ -559,6 +781,139 @@ export default function SuspensionCalculator() {
               />
             </div>
 
+            {/* Frame */}
+            <div className="grid grid-cols-3 gap-4 mb-6">
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Frame (for shock leverage)</label>
+                <select
+                  value={selectedFrameKey}
+                  onChange={(e) => {
+                    setSelectedFrameKey(e.target.value)
+                    setFrameSize('')
+                  }}
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">{useGarageMode ? 'Detect from garage bike' : 'Not listed'}</option>
+                  {FRAME_KINEMATICS.map(frame => (
+                    <option key={frameKey(frame)} value={frameKey(frame)}>{frameKey(frame)}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Frame Size</label>
+                <input
+                  type="text"
+                  value={frameSize}
+                  onChange={(e) => setFrameSize(e.target.value.toUpperCase())}
+                  placeholder="e.g., L"
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            </div>
+
+            {/* Model Details */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Fork Year</label>
+                <input
+                  type="number"
+                  value={forkModelYear ?? ''}
+                  onChange={(e) => setForkModelYear(e.target.value ? parseInt(e.target.value) : undefined)}
+                  placeholder="Current"
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                  min="2010"
+                  max="2030"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Fork Air Spring</label>
+                <input
+                  type="text"
+                  value={forkAirSpring}
+                  onChange={(e) => setForkAirSpring(e.target.value)}
+                  placeholder="e.g., DebonAir+"
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Wheel Size</label>
+                <select
+                  value={wheelSize}
+                  onChange={(e) => setWheelSize(e.target.value)}
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">Any</option>
+                  <option value="27.5">27.5&quot;</option>
+                  <option value="29">29&quot;</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Shock Stroke (mm)</label>
+                <input
+                  type="number"
+                  value={shockStroke ?? ''}
+                  onChange={(e) => setShockStroke(e.target.value ? parseFloat(e.target.value) : undefined)}
+                  placeholder="If not in catalog"
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                  min="20"
+                  max="100"
+                  step="2.5"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Shock Year</label>
+                <input
+                  type="number"
+                  value={shockModelYear ?? ''}
+                  onChange={(e) => setShockModelYear(e.target.value ? parseInt(e.target.value) : undefined)}
+                  placeholder="Current"
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                  min="2010"
+                  max="2030"
+                />
+              </div>
+            </div>
+
+            {/* Air Spring */}
+            <div className="grid grid-cols-3 gap-4 mb-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Fork Spacers</label>
+                <input
+                  type="number"
+                  value={forkSpacers ?? ''}
+                  onChange={(e) => setForkSpacers(e.target.value ? parseInt(e.target.value) : undefined)}
+                  placeholder="Recommended"
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                  min="0"
+                  max="10"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Shock Spacers</label>
+                <input
+                  type="number"
+                  value={shockSpacers ?? ''}
+                  onChange={(e) => setShockSpacers(e.target.value ? parseInt(e.target.value) : undefined)}
+                  placeholder="Recommended"
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                  min="0"
+                  max="10"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Rear Travel (mm)</label>
+                <input
+                  type="number"
+                  value={rearWheelTravel || ''}
+                  onChange={(e) => setRearWheelTravel(e.target.value ? parseInt(e.target.value) : undefined)}
+                  placeholder="Optional"
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                  min="80"
+                  max="220"
+                />
+              </div>
+            </div>
+
             <button
               onClick={calculateSetup}
               disabled={calculating || (useGarageMode && !selectedBike) || (!useGarageMode && (!manualForkBrand || !manualForkModel))}
@@ -570,6 +925,14 @@ export default function SuspensionCalculator() {
 
           {/* Results Section */}
           <div className="space-y-6">
+            {restoredSnapshot && (
+              <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4 text-sm text-indigo-900">
+                Showing saved setup &quot;{restoredSnapshot.name}&quot;
+                {restoredSnapshot.created_at && ` from ${new Date(restoredSnapshot.created_at).toLocaleDateString()}`}.
+                Calculate again to update it with current data.
+              </div>
+            )}
+
             {forkResult && (
               <div className="bg-white rounded-lg shadow p-6">
                 <div className="flex justify-between items-start mb-4">
@@ -578,26 +941,80 @@ export default function SuspensionCalculator() {
                 </div>
                 
                 <div className="grid grid-cols-2 gap-4 mb-4">
-                  <div className="text-center p-4 bg-blue-50 rounded">
-                    <div className="text-2xl font-bold text-blue-600">{forkResult.airPressure}</div>
-                    <div className="text-sm text-gray-600">PSI</div>
-                  </div>
+                  {forkResult.coilSpring ? (
+                    <div className="text-center p-4 bg-blue-50 rounded">
+                      <div className="text-2xl font-bold text-blue-600">{forkResult.springRate}</div>
+                      <div className="text-sm text-gray-600">lbs/in ({forkResult.coilSpring.selected.rateNmm.toFixed(1)} N/mm)</div>
+                    </div>
+                  ) : (
+                    <div className="text-center p-4 bg-blue-50 rounded">
+                      <div className="text-2xl font-bold text-blue-600">{displayPressure(forkResult.airPressure)}</div>
+                      <div className="text-sm text-gray-600">{unitLabel('pressure', units.pressure)}</div>
+                    </div>
+                  )}
                   <div className="text-center p-4 bg-green-50 rounded">
                     <div className="text-2xl font-bold text-green-600">{forkResult.targetSag}%</div>
                     <div className="text-sm text-gray-600">Target Sag</div>
                   </div>
                 </div>
                 
-                <div className="mb-4">
-                  <p className="text-sm font-medium text-gray-700">Rebound Clicks: {forkResult.reboundClicks}</p>
-                  <p className="text-xs text-gray-500">From fully closed (slow)</p>
-                </div>
+                {forkResult.damperSettings ? (
+                  <div className="mb-4">
+                    <DamperSettingsList settings={forkResult.damperSettings} />
+                  </div>
+                ) : (
+                  <div className="mb-4">
+                    <p className="text-sm font-medium text-gray-700">Rebound Clicks: {forkResult.reboundClicks}</p>
+                    <p className="text-xs text-gray-500">From fully closed (slow)</p>
+                  </div>
+                )}
+
+                {forkResult.recommendedVolumeSpacers !== undefined && (
+                  <div className="mb-4">
+                    <p className="text-sm font-medium text-gray-700">Volume Spacers: {forkResult.recommendedVolumeSpacers}</p>
+                    <p className="text-xs text-gray-500">Recommended for {ridingStyle} riding</p>
+                  </div>
+                )}
+
+                {forkResult.springCurve && (
+                  <div className="mb-4">
+                    <p className="text-sm font-medium text-gray-700 mb-2">Spring Curve</p>
+                    <SpringCurveChart points={forkResult.springCurve} targetSag={forkResult.targetSag} massUnit={units.mass} />
+                  </div>
+                )}
+
+                {forkResolution && (
+                  <div className="mb-4">
+                    <SpecResolutionSummary resolution={forkResolution} />
+                  </div>
+                )}
 
                 <div className="space-y-2">
                   {forkResult.notes.map((note, index) => (
                     <p key={index} className="text-sm text-gray-600">• {note}</p>
                   ))}
                 </div>
+
+                {forkSagTarget && !forkResult.coilSpring && (
+                  <SagLogPanel
+                    key={`${forkSagTarget.componentId}-${forkResult.airPressure}`}
+                    userId={user.id}
+                    bikeId={forkSagTarget.bikeId}
+                    componentId={forkSagTarget.componentId}
+                    componentType="fork"
+                    inputs={forkSagTarget.inputs}
+                    recommendedPsi={forkResult.airPressure}
+                    units={units}
+                    logs={sagLogs.filter(log => log.component_id === forkSagTarget.componentId)}
+                    onLogged={handleSagLogged}
+                  />
+                )}
+              </div>
+            )}
+
+            {shockStrokeMissing && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+                Your shock isn&apos;t in our catalog yet. Enter its stroke under Model Details, or select your frame, to calculate the rear shock.
               </div>
             )}
 
@@ -610,11 +1027,19 @@ export default function SuspensionCalculator() {
                 </div>
 
                 <div className="grid md:grid-cols-4 gap-4 mb-6">
-                  <div className="text-center p-4 bg-blue-50 rounded-lg border border-blue-200">
-                    <div className="text-sm text-blue-800 font-medium">Air Pressure</div>
-                    <div className="text-2xl font-bold text-blue-600">{shockResult.airPressure}</div>
-                    <div className="text-xs text-blue-700">PSI</div>
-                  </div>
+                  {shockResult.coilSpring ? (
+                    <div className="text-center p-4 bg-blue-50 rounded-lg border border-blue-200">
+                      <div className="text-sm text-blue-800 font-medium">Spring Rate</div>
+                      <div className="text-2xl font-bold text-blue-600">{shockResult.springRate}</div>
+                      <div className="text-xs text-blue-700">lbs/in ({shockResult.coilSpring.selected.rateNmm.toFixed(1)} N/mm)</div>
+                    </div>
+                  ) : (
+                    <div className="text-center p-4 bg-blue-50 rounded-lg border border-blue-200">
+                      <div className="text-sm text-blue-800 font-medium">Air Pressure</div>
+                      <div className="text-2xl font-bold text-blue-600">{displayPressure(shockResult.airPressure)}</div>
+                      <div className="text-xs text-blue-700">{unitLabel('pressure', units.pressure)}</div>
+                    </div>
+                  )}
                   <div className="text-center p-4 bg-green-50 rounded-lg border border-green-200">
                     <div className="text-sm text-green-800 font-medium">Target Sag</div>
                     <div className="text-2xl font-bold text-green-600">{shockResult.targetSag}</div>
@@ -623,17 +1048,50 @@ export default function SuspensionCalculator() {
                   <div className="text-center p-4 bg-orange-50 rounded-lg border border-orange-200">
                     <div className="text-sm text-orange-800 font-medium">Rebound</div>
                     <div className="text-2xl font-bold text-orange-600">{shockResult.reboundClicks}</div>
-                    <div className="text-xs text-orange-700">clicks from fast</div>
+                    <div className="text-xs text-orange-700">clicks from closed</div>
                   </div>
-                  {shockResult.compressionClicks && (
+                  {shockResult.leverageRatio && (
+                    <div className="text-center p-4 bg-gray-50 rounded-lg border border-gray-200">
+                      <div className="text-sm text-gray-800 font-medium">Leverage</div>
+                      <div className="text-2xl font-bold text-gray-700">{shockResult.leverageRatio.toFixed(2)}</div>
+                      <div className="text-xs text-gray-600">at sag</div>
+                    </div>
+                  )}
+                  {shockResult.compressionClicks !== undefined && (
                     <div className="text-center p-4 bg-purple-50 rounded-lg border border-purple-200">
                       <div className="text-sm text-purple-800 font-medium">Compression</div>
                       <div className="text-2xl font-bold text-purple-600">{shockResult.compressionClicks}</div>
-                      <div className="text-xs text-purple-700">clicks from open</div>
+                      <div className="text-xs text-purple-700">clicks from closed</div>
+                    </div>
+                  )}
+                  {shockResult.recommendedVolumeSpacers !== undefined && (
+                    <div className="text-center p-4 bg-gray-50 rounded-lg border border-gray-200">
+                      <div className="text-sm text-gray-800 font-medium">Spacers</div>
+                      <div className="text-2xl font-bold text-gray-700">{shockResult.recommendedVolumeSpacers}</div>
+                      <div className="text-xs text-gray-600">recommended</div>
                     </div>
                   )}
                 </div>
 
+                {shockResult.damperSettings && (
+                  <div className="mb-6">
+                    <DamperSettingsList settings={shockResult.damperSettings} />
+                  </div>
+                )}
+
+                {shockResult.springCurve && (
+                  <div className="mb-6">
+                    <h4 className="font-medium text-gray-900 mb-2">Spring Curve:</h4>
+                    <SpringCurveChart points={shockResult.springCurve} targetSag={shockResult.targetSag} massUnit={units.mass} />
+                  </div>
+                )}
+
+                {shockResolution && (
+                  <div className="mb-6">
+                    <SpecResolutionSummary resolution={shockResolution} />
+                  </div>
+                )}
+
                 {shockResult.notes.length > 0 && (
                   <div className="space-y-2">
                     <h4 className="font-medium text-gray-900">Setup Notes:</h4>
@@ -647,9 +1105,34 @@ export default function SuspensionCalculator() {
                     </ul>
                   </div>
                 )}
+
+                {shockSagTarget && !shockResult.coilSpring && (
+                  <SagLogPanel
+                    key={`${shockSagTarget.componentId}-${shockResult.airPressure}`}
+                    userId={user.id}
+                    bikeId={shockSagTarget.bikeId}
+                    componentId={shockSagTarget.componentId}
+                    componentType="shock"
+                    inputs={shockSagTarget.inputs}
+                    recommendedPsi={shockResult.airPressure}
+                    units={units}
+                    logs={sagLogs.filter(log => log.component_id === shockSagTarget.componentId)}
+                    onLogged={handleSagLogged}
+                  />
+                )}
               </div>
             )}
 
+            {snapshotDraft && selectedBike && user && (
+              <SaveSnapshotPanel
+                key={`${forkResult?.airPressure}-${shockResult?.airPressure}`}
+                userId={user.id}
+                bikeId={selectedBike.id}
+                bikeName={selectedBike.nickname}
+                draft={snapshotDraft}
+              />
+            )}
+
             {!forkResult && !shockResult && !calculating && (
               <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
                 <div className="text-4xl mb-2">🏔️</div>
@@ -661,8 +1144,8 @@ export default function SuspensionCalculator() {
             <div className="bg-gray-50 rounded-lg p-6">
               <h3 className="font-semibold text-gray-900 mb-3">How This Works</h3>
               <div className="text-sm text-gray-600 space-y-2">
-                <p><strong>Physics-Based:</strong> Uses stanchion diameter, travel, and air volume for accurate calculations</p>
-                <p><strong>Manufacturer Data:</strong> References real fork specifications when available</p>
+                <p><strong>Physics-Based:</strong> Models the air spring from chamber volumes, travel and volume spacers, then solves for the pressure that hits your target sag</p>
+                <p><strong>Manufacturer Data:</strong> Uses the manufacturer&apos;s pressure chart saved with your fork or shock when there is one, and real fork specifications otherwise</p>
                 <p><strong>Riding Style:</strong> Adjusts pressure based on your intended use</p>
                 <p><strong>Pro Tip:</strong> Start with these settings, then fine-tune based on feel</p>
               </div>
@@ -2,12 +2,39 @@
 
 'use client'
 
-import { useState, useEffect, useReducer, FC, FormEvent } from 'react'
+import { useState, useEffect, useMemo, useReducer, FC, FormEvent } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useRouter } from 'next/navigation'
 import Header from '@/components/Header'
+import UnitInput from '@/components/UnitInput'
+import UnitPreferencesControl from '@/components/UnitPreferencesControl'
 import Link from 'next/link'
-import { AdvancedCalculationInputs, PressureResult, calculateAdvancedPressure } from '@/lib/tire-pressure-logic'
+import {
+  AdvancedCalculationInputs,
+  PressureResult,
+  PressureSweep,
+  SweepParameter,
+  calculateAdvancedPressure,
+  sweepPressure,
+} from '@/lib/tire-pressure-logic'
+import { DEFAULT_PRESSURE_MODEL_ID, listPressureModels } from '@/lib/pressure-models'
+import { WeightDistributionInput } from '@/lib/weight-distribution'
+import { DEFAULT_WHEEL_BSD, listWheelSizes } from '@/lib/wheel-sizes'
+import { SafetyWarning } from '@/lib/pressure-safety-rules'
+import { RideConditions } from '@/lib/pressure-compensation'
+import { listTireSetups } from '@/lib/tire-setups'
+import { CARGO_LOCATIONS, CargoItem, CargoLocation, LoadAssignment, WheelLoads } from '@/lib/load-profile'
+import {
+  DEFAULT_UNIT_PREFERENCES,
+  UnitPreferences,
+  formatLength,
+  formatMass,
+  formatPressure,
+  fromCanonical,
+  resolveUnitPreferences,
+  roundForUnit,
+  unitLabel,
+} from '@/lib/units'
 
 // --- Type Definitions ---
 interface Bike {
@@ -37,14 +64,17 @@ interface User {
 interface Profile {
   id: string;
   subscription_status?: 'free' | 'premium';
+  unit_preferences?: Partial<UnitPreferences> | null;
 }
 
 // --- useReducer for Form State ---
 // Allow number fields to be an empty string during user input
-type FormState = Omit<AdvancedCalculationInputs, 'riderWeightLbs' | 'bikeWeightLbs' | 'rimWidthMm'> & {
+type FormState = Omit<AdvancedCalculationInputs, 'riderWeightLbs' | 'bikeWeightLbs' | 'rimWidthMm' | 'rimMaxPsi' | 'tireMaxPsi'> & {
     riderWeightLbs: number | '';
     bikeWeightLbs: number | '';
     rimWidthMm: number | '';
+    rimMaxPsi: number | '';
+    tireMaxPsi: number | '';
 };
 
 type FormAction =
@@ -56,18 +86,23 @@ const initialState: FormState = {
   bikeWeightLbs: 19,
   tireWidthMm: 28,
   rimWidthMm: 21,
-  wheelDiameter: '700c',
+  wheelBsdMm: DEFAULT_WHEEL_BSD,
   surfaceType: 'pavement',
   tireCasing: 'standard',
   tireType: 'tubeless',
   isHookless: false,
+  pressureModel: DEFAULT_PRESSURE_MODEL_ID,
+  rimModel: '',
+  tireModel: '',
+  rimMaxPsi: '',
+  tireMaxPsi: '',
 };
 
 function formReducer(state: FormState, action: FormAction): FormState {
   switch (action.type) {
     case 'SET_FIELD':
       // For number fields, parse to float but allow empty string for user input
-      if (['riderWeightLbs', 'bikeWeightLbs', 'rimWidthMm'].includes(action.field)) {
+      if (['riderWeightLbs', 'bikeWeightLbs', 'rimWidthMm', 'rimMaxPsi', 'tireMaxPsi'].includes(action.field)) {
         const parsedValue = parseFloat(action.value);
         return { ...state, [action.field]: isNaN(parsedValue) ? '' : parsedValue };
       }
@@ -80,6 +115,8 @@ function formReducer(state: FormState, action: FormAction): FormState {
         rimWidthMm: action.payload.rimWidthMm ?? state.rimWidthMm,
         isHookless: action.payload.isHookless ?? state.isHookless,
         tireCasing: action.payload.tireCasing ?? state.tireCasing,
+        rimModel: action.payload.rimModel ?? state.rimModel,
+        tireModel: action.payload.tireModel ?? state.tireModel,
       };
       return { ...state, ...payloadWithDefaults };
 
@@ -90,13 +127,15 @@ function formReducer(state: FormState, action: FormAction): FormState {
 
 // --- Main Page Component ---
 export default function TirePressureCalculatorPage() {
-  const [, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [bikes, setBikes] = useState<Bike[]>([]);
   const [selectedBikeId, setSelectedBikeId] = useState<string>('');
   const [loading, setLoading] = useState(true);
   const [calculating, setCalculating] = useState(false);
   const [result, setResult] = useState<PressureResult | null>(null);
+  const [resultInputs, setResultInputs] = useState<AdvancedCalculationInputs | null>(null);
+  const [units, setUnits] = useState<UnitPreferences>(DEFAULT_UNIT_PREFERENCES);
   const router = useRouter();
 
   const [formState, dispatch] = useReducer(formReducer, initialState);
@@ -113,6 +152,7 @@ export default function TirePressureCalculatorPage() {
 
       const { data: profileData } = await supabase.from('profiles').select('*').eq('id', user.id).single();
       setProfile(profileData);
+      setUnits(resolveUnitPreferences(profileData?.unit_preferences));
 
       if (profileData?.subscription_status === 'premium') {
         await fetchBikes(user.id);
@@ -178,6 +218,8 @@ export default function TirePressureCalculatorPage() {
         rimWidthMm: wheel?.internal_rim_width_mm,
         isHookless: wheel?.rim_type === 'hookless',
         tireCasing: tire?.casing_type,
+        rimModel: wheel ? `${wheel.brand} ${wheel.model}` : undefined,
+        tireModel: tire ? `${tire.brand} ${tire.model}` : undefined,
       },
     });
   };
@@ -217,10 +259,14 @@ export default function TirePressureCalculatorPage() {
             bikeWeightLbs: bikeWeight,
             rimWidthMm: rimWidth,
             tireWidthMm: Number(formState.tireWidthMm) || 25, // Default to 25mm if invalid
+            rimMaxPsi: Number(formState.rimMaxPsi) || undefined,
+            tireMaxPsi: Number(formState.tireMaxPsi) || undefined,
+            units,
         };
         
         const pressureResult = calculateAdvancedPressure(calculationInputs);
         setResult(pressureResult);
+        setResultInputs(calculationInputs);
         setCalculating(false);
         
         // Optional: Scroll to results on mobile
@@ -255,6 +301,9 @@ export default function TirePressureCalculatorPage() {
           <p className="text-lg text-gray-600">
             Optimal pressure based on physics for performance, comfort, and grip.
           </p>
+          <div className="mt-4">
+            <UnitPreferencesControl userId={user?.id} value={units} onChange={setUnits} />
+          </div>
         </div>
 
         <div className="grid lg:grid-cols-3 gap-8">
@@ -295,6 +344,7 @@ export default function TirePressureCalculatorPage() {
                 onSubmit={handleCalculate}
                 calculating={calculating}
                 isPremium={profile?.subscription_status === 'premium'}
+                units={units}
               />
             </div>
           </div>
@@ -303,7 +353,12 @@ export default function TirePressureCalculatorPage() {
           <div className="space-y-6">
             {result && (
               <div id="results-section">
-                <ResultsDisplay result={result} />
+                <ResultsDisplay result={result} units={units} />
+                {resultInputs && (
+                  <div className="mt-6">
+                    <PressureSweepPanel inputs={resultInputs} units={units} />
+                  </div>
+                )}
               </div>
             )}
             
@@ -326,7 +381,8 @@ const CalculatorForm: FC<{
   onSubmit: (e: FormEvent) => void;
   calculating: boolean;
   isPremium: boolean;
-}> = ({ formState, dispatch, onSubmit, calculating, isPremium }) => {
+  units: UnitPreferences;
+}> = ({ formState, dispatch, onSubmit, calculating, isPremium, units }) => {
   
   const handleInputChange = (field: keyof FormState, value: any) => {
     dispatch({ type: 'SET_FIELD', field, value });
@@ -338,67 +394,83 @@ const CalculatorForm: FC<{
       <div className="grid md:grid-cols-2 gap-4">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
-            Your Weight (lbs) *
+            Your Weight ({unitLabel('mass', units.mass)}) *
           </label>
-          <input
-            type="number"
+          <UnitInput
+            quantity="mass"
+            unit={units.mass}
             value={formState.riderWeightLbs}
-            onChange={(e) => handleInputChange('riderWeightLbs', e.target.value)}
+            onChange={(value) => handleInputChange('riderWeightLbs', value)}
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
-            placeholder="165"
-            min="50"
-            max="400"
+            placeholder={units.mass === 'kg' ? '75' : '165'}
+            min={50}
+            max={400}
             required
           />
         </div>
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
-            Bike Weight (lbs) *
+            Bike Weight ({unitLabel('mass', units.mass)}) *
           </label>
-          <input
-            type="number"
+          <UnitInput
+            quantity="mass"
+            unit={units.mass}
             value={formState.bikeWeightLbs}
-            onChange={(e) => handleInputChange('bikeWeightLbs', e.target.value)}
+            onChange={(value) => handleInputChange('bikeWeightLbs', value)}
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
-            placeholder="19"
-            min="10"
-            max="50"
+            placeholder={units.mass === 'kg' ? '8.6' : '19'}
+            min={10}
+            max={50}
             required
           />
           <p className="text-xs text-gray-500 mt-1">Include water bottles, bags, etc.</p>
         </div>
       </div>
 
+      <WeightDistributionFields
+        value={formState.weightDistribution}
+        onChange={(value) => handleInputChange('weightDistribution', value)}
+        units={units}
+      />
+
+      <CargoFields
+        value={formState.cargo ?? []}
+        onChange={(value) => handleInputChange('cargo', value)}
+        units={units}
+      />
+
       {/* Tire & Rim Specs */}
       <div className="grid md:grid-cols-2 gap-4">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
-            Tire Width (mm) *
+            Tire Width ({unitLabel('length', units.length)}) *
           </label>
-          <input
-            type="number"
+          <UnitInput
+            quantity="length"
+            unit={units.length}
             value={formState.tireWidthMm}
-            onChange={(e) => handleInputChange('tireWidthMm', e.target.value)}
+            onChange={(value) => handleInputChange('tireWidthMm', value)}
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
-            placeholder="28"
-            min="18"
-            max="65"
+            placeholder={units.length === 'in' ? '2.4' : '28'}
+            min={18}
+            max={125}
             required
           />
         </div>
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
-            Internal Rim Width (mm) *
+            Internal Rim Width ({unitLabel('length', units.length)}) *
             {!isPremium && <span className="text-purple-600 text-xs ml-1">(Premium: Auto-filled)</span>}
           </label>
-          <input
-            type="number"
+          <UnitInput
+            quantity="length"
+            unit={units.length}
             value={formState.rimWidthMm}
-            onChange={(e) => handleInputChange('rimWidthMm', e.target.value)}
+            onChange={(value) => handleInputChange('rimWidthMm', value)}
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
-            placeholder="21"
-            min="12"
-            max="40"
+            placeholder={units.length === 'in' ? '0.83' : '21'}
+            min={12}
+            max={40}
             required
           />
         </div>
@@ -411,14 +483,16 @@ const CalculatorForm: FC<{
             Wheel Size *
           </label>
           <select
-            value={formState.wheelDiameter}
-            onChange={(e) => handleInputChange('wheelDiameter', e.target.value)}
+            value={formState.wheelBsdMm}
+            onChange={(e) => handleInputChange('wheelBsdMm', Number(e.target.value))}
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
             required
           >
-            <option value="700c">700c (Road/Gravel)</option>
-            <option value="650b">650b (27.5&quot;)</option>
-            <option value="29er">29er (29&quot;)</option>
+            {listWheelSizes().map(wheelSize => (
+              <option key={wheelSize.bsdMm} value={wheelSize.bsdMm}>
+                {wheelSize.name} (ISO {wheelSize.bsdMm})
+              </option>
+            ))}
           </select>
         </div>
         <div>
@@ -450,6 +524,62 @@ const CalculatorForm: FC<{
         </div>
       </div>
 
+      {/* Rim & Tire Limits */}
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Rim Model (optional)
+          </label>
+          <input
+            type="text"
+            value={formState.rimModel}
+            onChange={(e) => handleInputChange('rimModel', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            placeholder="e.g., Zipp 303 S"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Tire Model (optional)
+          </label>
+          <input
+            type="text"
+            value={formState.tireModel}
+            onChange={(e) => handleInputChange('tireModel', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            placeholder="e.g., Continental Grand Prix 5000 S TR"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Rim Max Pressure ({unitLabel('pressure', units.pressure)}, optional)
+          </label>
+          <UnitInput
+            quantity="pressure"
+            unit={units.pressure}
+            value={formState.rimMaxPsi}
+            onChange={(value) => handleInputChange('rimMaxPsi', value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            placeholder="From the rim decal"
+            min={0}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Tire Max Pressure ({unitLabel('pressure', units.pressure)}, optional)
+          </label>
+          <UnitInput
+            quantity="pressure"
+            unit={units.pressure}
+            value={formState.tireMaxPsi}
+            onChange={(value) => handleInputChange('tireMaxPsi', value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            placeholder="From the tire sidewall"
+            min={0}
+          />
+        </div>
+      </div>
+
       {/* Tire Casing (Premium Feature) */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -475,7 +605,7 @@ const CalculatorForm: FC<{
         )}
       </div>
 
-      {/* Surface & Tire Type */}
+      {/* Surface & Tire Setup */}
       <div className="grid md:grid-cols-2 gap-4">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -495,19 +625,45 @@ const CalculatorForm: FC<{
         </div>
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
-            Tire Type
+            Tire Setup
           </label>
           <select
             value={formState.tireType}
             onChange={(e) => handleInputChange('tireType', e.target.value)}
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
           >
-            <option value="tubeless">Tubeless</option>
-            <option value="tubetype">Tube Type</option>
+            {listTireSetups().map(({ id, setup }) => (
+              <option key={id} value={id}>{setup.name}</option>
+            ))}
           </select>
         </div>
       </div>
 
+      {/* Pressure Model */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Pressure Model
+        </label>
+        <select
+          value={formState.pressureModel}
+          onChange={(e) => handleInputChange('pressureModel', e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {listPressureModels().map(model => (
+            <option key={model.id} value={model.id}>{model.name}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          {listPressureModels().find(model => model.id === formState.pressureModel)?.description}
+        </p>
+      </div>
+
+      <RideConditionsFields
+        value={formState.conditions}
+        units={units}
+        onChange={(value) => handleInputChange('conditions', value)}
+      />
+
       {/* Submit Button */}
       <button
         type="submit"
@@ -520,20 +676,306 @@ const CalculatorForm: FC<{
   )
 }
 
+// --- Weight Distribution Fields ---
+const WeightDistributionFields: FC<{
+  value?: WeightDistributionInput;
+  onChange: (value?: WeightDistributionInput) => void;
+  units: UnitPreferences;
+}> = ({ value, onChange, units }) => {
+  const method = value?.method ?? 'default';
+
+  const handleMethodChange = (newMethod: string) => {
+    if (newMethod === 'measured') {
+      onChange({ method: 'measured', frontScaleLbs: 0, rearScaleLbs: 0 });
+    } else if (newMethod === 'estimated') {
+      onChange({ method: 'estimated', bikeType: 'road', ridingPosition: 'hoods' });
+    } else {
+      onChange(undefined);
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Front/Rear Weight Distribution
+      </label>
+      <select
+        value={method}
+        onChange={(e) => handleMethodChange(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      >
+        <option value="default">Default (45% front / 55% rear)</option>
+        <option value="estimated">Estimate from bike type and position</option>
+        <option value="measured">Measured with two scales</option>
+      </select>
+
+      {value?.method === 'measured' && (
+        <div className="grid md:grid-cols-2 gap-4 mt-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Front Scale ({unitLabel('mass', units.mass)})</label>
+            <UnitInput
+              quantity="mass"
+              unit={units.mass}
+              value={value.frontScaleLbs || ''}
+              onChange={(scaleLbs) => onChange({ ...value, frontScaleLbs: scaleLbs ?? 0 })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              min={0}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Rear Scale ({unitLabel('mass', units.mass)})</label>
+            <UnitInput
+              quantity="mass"
+              unit={units.mass}
+              value={value.rearScaleLbs || ''}
+              onChange={(scaleLbs) => onChange({ ...value, rearScaleLbs: scaleLbs ?? 0 })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              min={0}
+            />
+          </div>
+          <p className="text-xs text-gray-500 md:col-span-2">Sit on the bike in your normal riding position with one scale under each wheel.</p>
+        </div>
+      )}
+
+      {value?.method === 'estimated' && (
+        <div className="grid md:grid-cols-2 gap-4 mt-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Bike Type</label>
+            <select
+              value={value.bikeType}
+              onChange={(e) => onChange({ ...value, bikeType: e.target.value as typeof value.bikeType })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="road">Road</option>
+              <option value="tt">Time Trial / Triathlon</option>
+              <option value="gravel">Gravel</option>
+              <option value="mtb">Mountain Bike</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Riding Position</label>
+            <select
+              value={value.ridingPosition}
+              onChange={(e) => onChange({ ...value, ridingPosition: e.target.value as typeof value.ridingPosition })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="upright">Upright / Tops</option>
+              <option value="hoods">Hoods</option>
+              <option value="drops">Drops</option>
+              <option value="aero">Aero / Extensions</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Frame Stack ({unitLabel('length', units.length)}, optional)</label>
+            <UnitInput
+              quantity="length"
+              unit={units.length}
+              value={value.stackMm}
+              onChange={(stackMm) => onChange({ ...value, stackMm })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              placeholder={units.length === 'in' ? '22' : '560'}
+              min={0}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Frame Reach ({unitLabel('length', units.length)}, optional)</label>
+            <UnitInput
+              quantity="length"
+              unit={units.length}
+              value={value.reachMm}
+              onChange={(reachMm) => onChange({ ...value, reachMm })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              placeholder={units.length === 'in' ? '15.2' : '385'}
+              min={0}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- Cargo Fields ---
+const CargoFields: FC<{
+  value: CargoItem[];
+  onChange: (value: CargoItem[]) => void;
+  units: UnitPreferences;
+}> = ({ value, onChange, units }) => {
+  const [expanded, setExpanded] = useState(value.length > 0);
+  const locations = Object.keys(CARGO_LOCATIONS) as CargoLocation[];
+
+  const updateItem = (location: CargoLocation, changes: Partial<CargoItem>) => {
+    const existing = value.find(item => item.location === location) ?? { location, weightLbs: 0 };
+    const updated = { ...existing, ...changes };
+    const others = value.filter(item => item.location !== location);
+    onChange(updated.weightLbs > 0 || updated.assignment ? [...others, updated] : others);
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+      >
+        {expanded ? '− Hide bags & cargo' : '+ Add bags & cargo (bikepacking, commuting)'}
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-2">
+          {locations.map(location => {
+            const item = value.find(cargoItem => cargoItem.location === location);
+            return (
+              <div key={location} className="grid grid-cols-3 gap-3 items-center">
+                <label className="text-sm text-gray-700">{CARGO_LOCATIONS[location].label}</label>
+                <UnitInput
+                  quantity="mass"
+                  unit={units.mass}
+                  value={item?.weightLbs || ''}
+                  onChange={(weightLbs) => updateItem(location, { weightLbs: weightLbs ?? 0 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  placeholder={unitLabel('mass', units.mass)}
+                  min={0}
+                />
+                <select
+                  value={item?.assignment ?? CARGO_LOCATIONS[location].defaultAssignment}
+                  onChange={(e) => updateItem(location, { assignment: e.target.value as LoadAssignment })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="front">Front wheel</option>
+                  <option value="rear">Rear wheel</option>
+                  <option value="split">Split</option>
+                </select>
+              </div>
+            );
+          })}
+          <p className="text-xs text-gray-500">Split loads follow your front/rear weight distribution.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- Load Breakdown Component ---
+const LoadBreakdown: FC<{ wheelLoads: WheelLoads; units: UnitPreferences }> = ({ wheelLoads, units }) => (
+    <div className="mb-6">
+        <h3 className="font-medium text-gray-900 mb-2">Load Breakdown:</h3>
+        <table className="w-full text-sm text-gray-700">
+            <thead>
+                <tr className="text-xs text-gray-500 border-b border-gray-200">
+                    <th className="text-left py-1 font-medium"></th>
+                    <th className="text-right py-1 font-medium">Front</th>
+                    <th className="text-right py-1 font-medium">Rear</th>
+                </tr>
+            </thead>
+            <tbody>
+                {wheelLoads.breakdown.map(item => (
+                    <tr key={item.label}>
+                        <td className="py-1">{item.label}</td>
+                        <td className="py-1 text-right">{formatMass(item.frontLbs, units.mass)}</td>
+                        <td className="py-1 text-right">{formatMass(item.rearLbs, units.mass)}</td>
+                    </tr>
+                ))}
+                <tr className="border-t border-gray-200 font-semibold">
+                    <td className="py-1">Total</td>
+                    <td className="py-1 text-right">{formatMass(wheelLoads.frontLbs, units.mass)}</td>
+                    <td className="py-1 text-right">{formatMass(wheelLoads.rearLbs, units.mass)}</td>
+                </tr>
+            </tbody>
+        </table>
+    </div>
+);
+
+// --- Ride Conditions Fields ---
+const RideConditionsFields: FC<{
+  value?: RideConditions;
+  units: UnitPreferences;
+  onChange: (value: RideConditions) => void;
+}> = ({ value = {}, units, onChange }) => {
+  const handleChange = (field: keyof RideConditions, canonical: number | undefined) => {
+    onChange({ ...value, [field]: canonical });
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Ride Conditions (optional)
+      </label>
+      <div className="grid md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Inflation Temp ({unitLabel('temperature', units.temperature)})</label>
+          <UnitInput
+            quantity="temperature"
+            unit={units.temperature}
+            value={value.inflationTempC}
+            onChange={(canonical) => handleChange('inflationTempC', canonical)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            placeholder={units.temperature === 'f' ? '68' : '20'}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Ride Temp ({unitLabel('temperature', units.temperature)})</label>
+          <UnitInput
+            quantity="temperature"
+            unit={units.temperature}
+            value={value.rideTempC}
+            onChange={(canonical) => handleChange('rideTempC', canonical)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            placeholder={units.temperature === 'f' ? '41' : '5'}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Altitude Change ({unitLabel('altitude', units.altitude)})</label>
+          <UnitInput
+            quantity="altitude"
+            unit={units.altitude}
+            value={value.altitudeChangeM}
+            onChange={(canonical) => handleChange('altitudeChangeM', canonical)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            placeholder={units.altitude === 'ft' ? '5000' : '1500'}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">Set these if you pump up in a warm garage and ride in the cold, or ride well above or below where you inflate.</p>
+    </div>
+  );
+};
+
 // --- Results Display Component ---
-const ResultsDisplay: FC<{ result: PressureResult }> = ({ result }) => {
+const ResultsDisplay: FC<{ result: PressureResult; units: UnitPreferences }> = ({ result, units }) => {
+    const displayPressure = (psi: number) => roundForUnit('pressure', fromCanonical('pressure', psi, units.pressure), units.pressure);
+    const pressureLabel = unitLabel('pressure', units.pressure);
+
     return (
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 animate-fade-in">
-            <h2 className="text-xl font-semibold text-gray-900 mb-6">Your Recommended Pressure</h2>
+            <h2 className="text-xl font-semibold text-gray-900 mb-1">Your Recommended Pressure</h2>
+            <p className="text-xs text-gray-500 mb-6">Calculated with the {result.model.name} model (v{result.model.version})</p>
 
             <div className="grid grid-cols-2 gap-4 mb-6">
                 <div className="text-center p-4 bg-blue-50 rounded-lg border border-blue-200">
                     <div className="text-sm text-blue-800 font-semibold tracking-wider">FRONT</div>
-                    <div className="text-4xl font-bold text-blue-600 my-1">{result.frontPsi}<span className="text-xl align-baseline ml-1">PSI</span></div>
+                    <div className="text-4xl font-bold text-blue-600 my-1">{displayPressure(result.frontPsi)}<span className="text-xl align-baseline ml-1">{pressureLabel}</span></div>
                 </div>
                 <div className="text-center p-4 bg-green-50 rounded-lg border border-green-200">
                     <div className="text-sm text-green-800 font-semibold tracking-wider">REAR</div>
-                    <div className="text-4xl font-bold text-green-600 my-1">{result.rearPsi}<span className="text-xl align-baseline ml-1">PSI</span></div>
+                    <div className="text-4xl font-bold text-green-600 my-1">{displayPressure(result.rearPsi)}<span className="text-xl align-baseline ml-1">{pressureLabel}</span></div>
+                </div>
+            </div>
+
+            {(result.inflationFrontPsi !== result.frontPsi || result.inflationRearPsi !== result.rearPsi) && (
+                <div className="mb-6 p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-900 text-center">
+                    Inflate to <span className="font-semibold">{formatPressure(result.inflationFrontPsi, units.pressure)}</span> front / <span className="font-semibold">{formatPressure(result.inflationRearPsi, units.pressure)}</span> rear to reach these pressures on the ride.
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4 mb-6 text-center text-sm text-gray-700">
+                <div className="p-2 bg-gray-50 rounded-md border border-gray-200">
+                    <div className="text-xs text-gray-500">Inflated Width</div>
+                    <div className="font-semibold">{formatLength(result.effectiveTireWidthMm, units.length)}</div>
+                </div>
+                <div className="p-2 bg-gray-50 rounded-md border border-gray-200">
+                    <div className="text-xs text-gray-500">Tire Height</div>
+                    <div className="font-semibold">{formatLength(result.tireHeightMm, units.length)}</div>
                 </div>
             </div>
 
@@ -546,6 +988,12 @@ const ResultsDisplay: FC<{ result: PressureResult }> = ({ result }) => {
                 </div>
             )}
             
+            <LoadBreakdown wheelLoads={result.wheelLoads} units={units} />
+
+            {result.safetyWarnings.length > 0 && (
+                <SafetyChecks warnings={result.safetyWarnings} />
+            )}
+
             {result.notes.length > 0 && (
                 <div className="space-y-3">
                     <h3 className="font-medium text-gray-900">Calculation Insights:</h3>
@@ -563,6 +1011,149 @@ const ResultsDisplay: FC<{ result: PressureResult }> = ({ result }) => {
     );
 };
 
+// --- Pressure Sweep Component ---
+const SWEEP_PARAMETER_LABELS: Record<SweepParameter, string> = {
+    tireWidthMm: 'Tire Width',
+    riderWeightLbs: 'Rider Weight',
+    surfaceType: 'Surface',
+    tireCasing: 'Casing',
+};
+
+const SWEEP_VALUE_LABELS: Record<string, string> = {
+    pavement: 'Smooth',
+    poor_pavement: 'Poor pavement',
+    mixed: 'Mixed',
+    gravel_hardpack: 'Hardpack',
+    gravel_loose: 'Loose',
+    standard: 'Standard',
+    supple: 'Supple',
+    'ultra-supple': 'Ultra-supple',
+};
+
+const PressureSweepPanel: FC<{ inputs: AdvancedCalculationInputs; units: UnitPreferences }> = ({ inputs, units }) => {
+    const [parameter, setParameter] = useState<SweepParameter>('tireWidthMm');
+    const sweep = useMemo(() => sweepPressure({ ...inputs, units }, parameter), [inputs, units, parameter]);
+
+    const formatValue = (value: number | string) => {
+        if (typeof value === 'string') return SWEEP_VALUE_LABELS[value] ?? value;
+        return parameter === 'tireWidthMm' ? formatLength(value, units.length) : formatMass(value, units.mass);
+    };
+
+    return (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold text-gray-900">What If?</h3>
+                <select
+                    value={parameter}
+                    onChange={(e) => setParameter(e.target.value as SweepParameter)}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                    {(Object.keys(SWEEP_PARAMETER_LABELS) as SweepParameter[]).map(key => (
+                        <option key={key} value={key}>{SWEEP_PARAMETER_LABELS[key]}</option>
+                    ))}
+                </select>
+            </div>
+
+            <PressureSweepChart sweep={sweep} units={units} formatValue={formatValue} />
+
+            <table className="w-full text-sm text-gray-700 mt-4">
+                <thead>
+                    <tr className="text-xs text-gray-500 border-b border-gray-200">
+                        <th className="text-left py-1 font-medium">{SWEEP_PARAMETER_LABELS[parameter]}</th>
+                        <th className="text-right py-1 font-medium">Front</th>
+                        <th className="text-right py-1 font-medium">Rear</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {sweep.points.map(point => (
+                        <tr key={String(point.value)} className={point.isBase ? 'font-semibold text-indigo-700' : ''}>
+                            <td className="py-1">{formatValue(point.value)}{point.hasWarnings && <span className="text-yellow-600 ml-1" title="Limited by a safety rule or outside the recommended range">⚠</span>}</td>
+                            <td className="py-1 text-right">{formatPressure(point.frontPsi, units.pressure)}</td>
+                            <td className="py-1 text-right">{formatPressure(point.rearPsi, units.pressure)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const PressureSweepChart: FC<{
+    sweep: PressureSweep;
+    units: UnitPreferences;
+    formatValue: (value: number | string) => string;
+}> = ({ sweep, units, formatValue }) => {
+    const width = 320;
+    const height = 160;
+    const padding = { top: 10, right: 10, bottom: 24, left: 36 };
+    const { points } = sweep;
+    if (points.length < 2) return null;
+
+    const maxPsi = Math.max(...points.map(point => Math.max(point.frontPsi, point.rearPsi)));
+    const minPsi = Math.min(...points.map(point => Math.min(point.frontPsi, point.rearPsi)));
+    const yMin = Math.max(0, minPsi - 5);
+    const yMax = maxPsi + 5;
+
+    const x = (index: number) => padding.left + (index / (points.length - 1)) * (width - padding.left - padding.right);
+    const y = (psi: number) => padding.top + (1 - (psi - yMin) / (yMax - yMin)) * (height - padding.top - padding.bottom);
+    const line = (key: 'frontPsi' | 'rearPsi') => points.map((point, index) => `${x(index)},${y(point[key])}`).join(' ');
+    const axisLabel = (psi: number) => roundForUnit('pressure', fromCanonical('pressure', psi, units.pressure), units.pressure);
+    const labelEvery = Math.ceil(points.length / 6);
+
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Front and rear pressure sweep">
+            {[yMin, (yMin + yMax) / 2, yMax].map(psi => (
+                <g key={psi}>
+                    <line x1={padding.left} x2={width - padding.right} y1={y(psi)} y2={y(psi)} stroke="#e5e7eb" />
+                    <text x={padding.left - 4} y={y(psi) + 3} textAnchor="end" fontSize="9" fill="#6b7280">{axisLabel(psi)}</text>
+                </g>
+            ))}
+            <polyline points={line('frontPsi')} fill="none" stroke="#2563eb" strokeWidth="2" />
+            <polyline points={line('rearPsi')} fill="none" stroke="#16a34a" strokeWidth="2" />
+            {points.map((point, index) => (
+                <g key={String(point.value)}>
+                    <circle cx={x(index)} cy={y(point.frontPsi)} r={point.isBase ? 4 : 2.5} fill="#2563eb" />
+                    <circle cx={x(index)} cy={y(point.rearPsi)} r={point.isBase ? 4 : 2.5} fill="#16a34a" />
+                    {index % labelEvery === 0 && (
+                        <text x={x(index)} y={height - 8} textAnchor="middle" fontSize="9" fill="#6b7280">{formatValue(point.value)}</text>
+                    )}
+                </g>
+            ))}
+            <text x={width - padding.right} y={padding.top + 8} textAnchor="end" fontSize="9" fill="#2563eb">Front</text>
+            <text x={width - padding.right} y={padding.top + 18} textAnchor="end" fontSize="9" fill="#16a34a">Rear</text>
+        </svg>
+    );
+};
+
+// --- Safety Checks Component ---
+const SEVERITY_STYLES: Record<SafetyWarning['severity'], string> = {
+    critical: 'bg-red-100 text-red-800',
+    warning: 'bg-yellow-100 text-yellow-800',
+    info: 'bg-gray-100 text-gray-700',
+};
+
+const SafetyChecks: FC<{ warnings: SafetyWarning[] }> = ({ warnings }) => {
+    const severityOrder: SafetyWarning['severity'][] = ['critical', 'warning', 'info'];
+    const sorted = [...warnings].sort((a, b) => severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity));
+
+    return (
+        <div className="mb-4 space-y-2">
+            <h3 className="font-medium text-gray-900">Rim &amp; Tire Safety Checks:</h3>
+            {sorted.map(warning => (
+                <div key={warning.ruleId} className="text-sm text-gray-700 flex items-start space-x-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold uppercase flex-shrink-0 ${SEVERITY_STYLES[warning.severity]}`}>
+                        {warning.severity}
+                    </span>
+                    <span>
+                        {warning.message}
+                        <span className="block text-xs text-gray-500">Source: {warning.source}</span>
+                    </span>
+                </div>
+            ))}
+        </div>
+    );
+};
+
 // --- Premium Upsell Component ---
 const PremiumUpsell: FC = () => (
     <div className="bg-purple-50 rounded-lg p-6 border-2 border-dashed border-purple-200 text-center">
@@ -585,7 +1176,7 @@ const TirePressureTips: FC = () => (
         </li>
         <li className="flex items-start space-x-2">
           <span className="font-bold text-indigo-600 mt-0.5">2.</span>
-          <span><strong>Fine-Tune:</strong> Adjust by 1-2 PSI up or down based on personal feel and specific conditions of the day.</span>
+          <span><strong>Fine-Tune:</strong> Adjust by 1-2 PSI (about 0.1 bar) up or down based on personal feel and specific conditions of the day.</span>
         </li>
         <li className="flex items-start space-x-2">
           <span className="font-bold text-indigo-600 mt-0.5">3.</span>
@@ -5,6 +5,8 @@ import { supabase } from '@/lib/supabase'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import Header from '@/components/Header'
+import SuspensionSnapshots from '@/components/SuspensionSnapshots'
+import { resolveUnitPreferences } from '@/lib/units'
 
 interface Bike {
   id: string
@@ -33,6 +35,7 @@ interface BikeComponent {
 interface Profile {
   id: string
   subscription_status: 'free' | 'premium'
+  unit_preferences?: Record<string, string> | null
 }
 
 interface GroupedComponents {
@@ -140,6 +143,7 @@ export default function BikeDetail({ params }: { params: Promise<{ id: string }>
   }
 
   const totalWeight = calculateTotalWeight()
+  const hasSuspension = Boolean(groupedComponents['Fork'] || groupedComponents['Shock'])
 
   if (loading) {
     return (
@@ -320,6 +324,11 @@ export default function BikeDetail({ params }: { params: Promise<{ id: string }>
             )}
           </div>
         </div>
+
+        {/* Saved suspension setups */}
+        {hasSuspension && (
+          <SuspensionSnapshots bikeId={bike.id} units={resolveUnitPreferences(profile?.unit_preferences)} />
+        )}
       </div>
 
       {/* Upgrade Modal */}
@@ -0,0 +1,57 @@
+// src/components/CadenceSpeedMatrix.tsx
+import { isInCadenceBand, type CadenceBand, type GearRatio, type GearSpeedMatch } from '@/lib/gear-logic'
+
+interface CadenceSpeedMatrixProps {
+  gears: GearRatio[]
+  band: CadenceBand
+  speedUnit: 'km/h' | 'mph'
+  matches?: GearSpeedMatch[] // Gears found by a target-speed query, highlighted
+}
+
+// Speed per gear across the cadence range, with the rider's cadence band shaded.
+export default function CadenceSpeedMatrix({ gears, band, speedUnit, matches = [] }: CadenceSpeedMatrixProps) {
+  if (gears.length === 0) return null
+
+  const cadences = gears[0].speedByCadence.map(entry => entry.cadence)
+  const matchedKeys = new Set(matches.map(match => `${match.gear.chainring}-${match.gear.cog}`))
+
+  return (
+    <div className="max-h-96 overflow-auto border border-gray-200 rounded-md">
+      <table className="w-full text-xs">
+        <thead className="bg-gray-50 sticky top-0">
+          <tr>
+            <th className="px-2 py-2 text-left">Gear</th>
+            {cadences.map(cadence => (
+              <th
+                key={cadence}
+                className={`px-2 py-2 text-right ${isInCadenceBand(cadence, band) ? 'bg-indigo-100 text-indigo-900' : ''}`}
+              >
+                {cadence}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {gears.map(gear => {
+            const key = `${gear.chainring}-${gear.cog}`
+            const matched = matchedKeys.has(key)
+            return (
+              <tr key={key} className={matched ? 'bg-green-50 font-medium' : 'hover:bg-gray-50'}>
+                <td className="px-2 py-1 whitespace-nowrap">{gear.chainring}t → {gear.cog}t</td>
+                {gear.speedByCadence.map(entry => (
+                  <td
+                    key={entry.cadence}
+                    className={`px-2 py-1 text-right ${isInCadenceBand(entry.cadence, band) ? 'bg-indigo-50' : 'text-gray-500'}`}
+                  >
+                    {speedUnit === 'mph' ? entry.speedMph : entry.speedKmh}
+                  </td>
+                ))}
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+      <p className="px-2 py-1 text-xs text-gray-500">Speeds in {speedUnit}; columns are cadence in RPM.</p>
+    </div>
+  )
+}
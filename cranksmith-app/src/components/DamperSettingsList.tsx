@@ -0,0 +1,32 @@
+// src/components/DamperSettingsList.tsx
+import { DAMPER_ADJUSTER_LABELS, type DamperAdjuster, type DamperSettings } from '@/lib/damper-catalog'
+
+interface DamperSettingsListProps {
+  settings: DamperSettings
+}
+
+const ADJUSTER_ORDER: DamperAdjuster[] = ['hsc', 'lsc', 'hsr', 'lsr']
+
+// Baseline position for every external adjuster on a known damper.
+export default function DamperSettingsList({ settings }: DamperSettingsListProps) {
+  return (
+    <div>
+      <p className="text-sm font-medium text-gray-700 mb-2">{settings.damper} Baseline</p>
+      <table className="w-full text-sm text-gray-700">
+        <tbody>
+          {ADJUSTER_ORDER.filter(adjuster => settings.adjusters[adjuster]).map(adjuster => {
+            const setting = settings.adjusters[adjuster]!
+            return (
+              <tr key={adjuster} className="border-b border-gray-100">
+                <td className="py-1">{DAMPER_ADJUSTER_LABELS[adjuster]}</td>
+                <td className="py-1 text-right font-medium">
+                  {setting.clicksFromClosed} <span className="text-gray-500 font-normal">of {setting.totalClicks} clicks from closed</span>
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
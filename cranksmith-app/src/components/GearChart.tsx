@@ -0,0 +1,103 @@
+// src/components/GearChart.tsx
+import { gearKey, type AnalyzedGear, type GearAnalysis } from '@/lib/gear-analysis'
+
+interface GearChartProps {
+  analysis: GearAnalysis
+}
+
+const WIDTH = 640
+const ROW_HEIGHT = 36
+const PADDING = { top: 12, right: 16, bottom: 28, left: 56 }
+
+const CROSS_CHAIN_COLORS = {
+  ok: '#16a34a',
+  caution: '#d97706',
+  extreme: '#dc2626'
+}
+
+// Every gear on a ratio axis, one row per chainring plus the usable progression with
+// the step between neighbours. The shift sequence for 2x/3x is drawn across the rows.
+export default function GearChart({ analysis }: GearChartProps) {
+  const { gears, usableGears, steps, shiftSequence } = analysis
+  if (gears.length === 0) return null
+
+  const rings = [...new Set(gears.map(gear => gear.chainring))].sort((a, b) => b - a)
+  const rowCount = rings.length + 1
+  const height = PADDING.top + rowCount * ROW_HEIGHT + PADDING.bottom
+  const minRatio = Math.min(...gears.map(gear => gear.ratio))
+  const maxRatio = Math.max(...gears.map(gear => gear.ratio))
+
+  // Log scale, so equal percentage steps are equal distances
+  const span = Math.log(maxRatio / minRatio) || 1
+  const x = (ratio: number) => PADDING.left + (Math.log(ratio / minRatio) / span) * (WIDTH - PADDING.left - PADDING.right)
+  const rowY = (row: number) => PADDING.top + row * ROW_HEIGHT + ROW_HEIGHT / 2
+  const ringY = (chainring: number) => rowY(rings.indexOf(chainring))
+  const usableY = rowY(rings.length)
+  const sequenceLine = shiftSequence.map(step => `${x(step.gear.ratio)},${ringY(step.gear.chainring)}`).join(' ')
+
+  const dot = (gear: AnalyzedGear, y: number) => (
+    <circle
+      key={`${gearKey(gear)}-${y}`}
+      cx={x(gear.ratio)}
+      cy={y}
+      r={5}
+      fill={gear.duplicateOf ? 'white' : CROSS_CHAIN_COLORS[gear.crossChain]}
+      stroke={CROSS_CHAIN_COLORS[gear.crossChain]}
+      strokeWidth={2}
+    >
+      <title>
+        {`${gear.chainring}t × ${gear.cog}t: ${gear.ratio} (${gear.chainAngleDeg}° chain angle, ${gear.efficiencyPercent}% efficient${gear.duplicateOf ? `, duplicates ${gear.duplicateOf.replace('-', 't × ')}t` : ''})`}
+      </title>
+    </circle>
+  )
+
+  const ticks = [minRatio, Math.sqrt(minRatio * maxRatio), maxRatio]
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label="Gear ratios by chainring">
+        {rings.map(ring => (
+          <g key={ring}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={ringY(ring)} y2={ringY(ring)} stroke="#e5e7eb" />
+            <text x={PADDING.left - 8} y={ringY(ring) + 3} textAnchor="end" fontSize="10" fill="#374151">{ring}t</text>
+          </g>
+        ))}
+        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={usableY} y2={usableY} stroke="#c7d2fe" />
+        <text x={PADDING.left - 8} y={usableY + 3} textAnchor="end" fontSize="10" fill="#4338ca">Usable</text>
+
+        {shiftSequence.length > 0 && (
+          <polyline points={sequenceLine} fill="none" stroke="#6366f1" strokeWidth="1.5" strokeDasharray="4 3" />
+        )}
+
+        {gears.map(gear => dot(gear, ringY(gear.chainring)))}
+        {usableGears.map(gear => dot(gear, usableY))}
+
+        {steps.map(step => (
+          <text
+            key={`${gearKey(step.from)}-${gearKey(step.to)}`}
+            x={(x(step.from.ratio) + x(step.to.ratio)) / 2}
+            y={usableY - 9}
+            textAnchor="middle"
+            fontSize="8"
+            fill="#6b7280"
+          >
+            {Math.round(step.stepPercent)}%
+          </text>
+        ))}
+
+        {ticks.map(ratio => (
+          <text key={ratio} x={x(ratio)} y={height - 8} textAnchor="middle" fontSize="9" fill="#6b7280">
+            {ratio.toFixed(2)}
+          </text>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-600">
+        <span><span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: CROSS_CHAIN_COLORS.ok }}></span>Straight enough</span>
+        <span><span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: CROSS_CHAIN_COLORS.caution }}></span>Some cross-chain</span>
+        <span><span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: CROSS_CHAIN_COLORS.extreme }}></span>Extreme cross-chain</span>
+        <span><span className="inline-block w-2 h-2 rounded-full mr-1 border-2" style={{ borderColor: CROSS_CHAIN_COLORS.ok }}></span>Near-duplicate</span>
+        {shiftSequence.length > 0 && <span className="text-indigo-600">- - Shift sequence</span>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+// src/components/SagLogPanel.tsx
+'use client'
+import { useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import UnitInput from '@/components/UnitInput'
+import type { SuspensionType } from '@/lib/air-spring'
+import { correctFromSag, type SagCorrection, type SagLogEntry } from '@/lib/sag-correction'
+import type { SuspensionCalculationInputs } from '@/lib/suspension-logic'
+import { formatPressure, formatTemperature, unitLabel, type UnitPreferences } from '@/lib/units'
+
+interface SagLogPanelProps {
+  userId: string
+  bikeId: string
+  componentId: string
+  componentType: SuspensionType
+  inputs: SuspensionCalculationInputs // The inputs behind the current recommendation
+  recommendedPsi: number
+  units: UnitPreferences
+  logs: SagLogEntry[] // This component's logs, newest first
+  onLogged: (entry: SagLogEntry) => void
+}
+
+// Records a measured sag for a garage fork/shock and suggests the pressure change
+// needed to reach the target sag.
+export default function SagLogPanel({ userId, bikeId, componentId, componentType, inputs, recommendedPsi, units, logs, onLogged }: SagLogPanelProps) {
+  const [loggedOn, setLoggedOn] = useState(() => new Date().toISOString().slice(0, 10))
+  const [pressurePsi, setPressurePsi] = useState<number | undefined>(recommendedPsi)
+  const [measuredSagMm, setMeasuredSagMm] = useState<number | undefined>(undefined)
+  const [temperatureC, setTemperatureC] = useState<number | undefined>(undefined)
+  const [notes, setNotes] = useState('')
+  const [correction, setCorrection] = useState<SagCorrection | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const pressure = (psi: number) => formatPressure(psi, units.pressure)
+
+  const handleSubmit = async () => {
+    if (!pressurePsi || measuredSagMm === undefined) return
+    const result = correctFromSag(inputs, { pressurePsi, measuredSagMm })
+    if (!result) {
+      setError('Sag logging is only available for air springs.')
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    const entry: SagLogEntry = {
+      user_id: userId,
+      bike_id: bikeId,
+      component_id: componentId,
+      component_type: componentType,
+      logged_on: loggedOn,
+      pressure_psi: pressurePsi,
+      measured_sag_mm: measuredSagMm,
+      travel_mm: result.travelMm,
+      target_sag_percent: result.targetSagPercent,
+      temperature_c: temperatureC ?? null,
+      notes: notes || null,
+      sag_bias: result.sagBias
+    }
+    const { data, error: insertError } = await supabase
+      .from('sag_logs')
+      .insert([entry])
+      .select()
+      .single()
+
+    if (insertError) {
+      console.error('Error saving sag log:', insertError)
+      setError('Could not save this measurement. Please try again.')
+    } else {
+      setCorrection(result)
+      setNotes('')
+      onLogged(data as SagLogEntry)
+    }
+    setSaving(false)
+  }
+
+  return (
+    <div className="border-t border-gray-200 pt-4 mt-4">
+      <h4 className="font-medium text-gray-900 mb-3">Log Measured Sag</h4>
+
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Date</label>
+          <input
+            type="date"
+            value={loggedOn}
+            onChange={(e) => setLoggedOn(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Pressure ({unitLabel('pressure', units.pressure)})
+          </label>
+          <UnitInput
+            quantity="pressure"
+            unit={units.pressure}
+            value={pressurePsi}
+            onChange={setPressurePsi}
+            className="w-full p-2 border border-gray-300 rounded-md text-sm"
+            min={0}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Measured Sag (mm)</label>
+          <input
+            type="number"
+            value={measuredSagMm ?? ''}
+            onChange={(e) => setMeasuredSagMm(e.target.value ? parseFloat(e.target.value) : undefined)}
+            className="w-full p-2 border border-gray-300 rounded-md text-sm"
+            min="0"
+            step="0.5"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Temperature ({unitLabel('temperature', units.temperature)})
+          </label>
+          <UnitInput
+            quantity="temperature"
+            unit={units.temperature}
+            value={temperatureC}
+            onChange={setTemperatureC}
+            placeholder="Optional"
+            className="w-full p-2 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+      </div>
+      <input
+        type="text"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Notes (optional)"
+        className="w-full p-2 border border-gray-300 rounded-md text-sm mb-3"
+      />
+      <button
+        onClick={handleSubmit}
+        disabled={saving || !pressurePsi || measuredSagMm === undefined}
+        className="w-full bg-gray-800 text-white py-2 px-4 rounded-md text-sm hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {saving ? 'Saving...' : 'Log Sag & Get Correction'}
+      </button>
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+
+      {correction && (
+        <div className="mt-4 p-3 bg-indigo-50 border border-indigo-200 rounded-md text-sm text-indigo-900">
+          <p>
+            Measured {correction.measuredSagPercent.toFixed(1)}% sag (target {correction.targetSagPercent}%).{' '}
+            {correction.adjustmentPsi === 0
+              ? 'Keep your current pressure.'
+              : `${correction.adjustmentPsi > 0 ? 'Add' : 'Remove'} ${pressure(Math.abs(correction.adjustmentPsi))}, to ${pressure(correction.correctedPressurePsi)}.`}
+          </p>
+          {correction.notes.map((note, index) => (
+            <p key={index} className="text-xs text-indigo-700 mt-1">{note}</p>
+          ))}
+        </div>
+      )}
+
+      {logs.length > 0 && (
+        <table className="w-full text-xs text-gray-700 mt-4">
+          <thead>
+            <tr className="text-gray-500 border-b border-gray-200">
+              <th className="text-left py-1 font-medium">Date</th>
+              <th className="text-right py-1 font-medium">Pressure</th>
+              <th className="text-right py-1 font-medium">Sag</th>
+              <th className="text-right py-1 font-medium">Temp</th>
+            </tr>
+          </thead>
+          <tbody>
+            {logs.map(log => (
+              <tr key={log.id ?? `${log.logged_on}-${log.created_at}`} className="border-b border-gray-100" title={log.notes ?? undefined}>
+                <td className="py-1">{log.logged_on}</td>
+                <td className="py-1 text-right">{pressure(log.pressure_psi)}</td>
+                <td className="py-1 text-right">{log.measured_sag_mm}mm ({Math.round(log.measured_sag_mm / log.travel_mm * 100)}%)</td>
+                <td className="py-1 text-right">{log.temperature_c != null ? formatTemperature(log.temperature_c, units.temperature) : '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
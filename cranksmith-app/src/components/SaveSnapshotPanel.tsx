@@ -0,0 +1,110 @@
+// src/components/SaveSnapshotPanel.tsx
+'use client'
+import { useState } from 'react'
+import Link from 'next/link'
+import {
+  parseSnapshotTags,
+  saveSnapshot,
+  SNAPSHOT_TAG_SUGGESTIONS,
+  type SetupSnapshot
+} from '@/lib/setup-snapshots'
+
+type SnapshotDraft = Omit<SetupSnapshot, 'id' | 'user_id' | 'bike_id' | 'name' | 'tags' | 'is_active' | 'created_at'>
+
+interface SaveSnapshotPanelProps {
+  userId: string
+  bikeId: string
+  bikeName: string
+  draft: SnapshotDraft // Current calculator inputs and results
+}
+
+// Saves the current results as a named, tagged setup on the garage bike.
+export default function SaveSnapshotPanel({ userId, bikeId, bikeName, draft }: SaveSnapshotPanelProps) {
+  const [name, setName] = useState('')
+  const [tags, setTags] = useState('')
+  const [makeActive, setMakeActive] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState<SetupSnapshot | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const addTag = (tag: string) => {
+    const current = parseSnapshotTags(tags)
+    if (!current.includes(tag)) setTags([...current, tag].join(', '))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    const snapshot = await saveSnapshot({
+      ...draft,
+      user_id: userId,
+      bike_id: bikeId,
+      name: name.trim() || `${draft.riding_style} setup ${new Date().toLocaleDateString()}`,
+      tags: parseSnapshotTags(tags),
+      is_active: makeActive
+    })
+    if (snapshot) {
+      setSaved(snapshot)
+    } else {
+      setError('Could not save this setup. Please try again.')
+    }
+    setSaving(false)
+  }
+
+  if (saved) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 text-sm text-gray-700">
+        Saved &quot;{saved.name}&quot; to {bikeName}.{' '}
+        <Link href={`/garage/bike/${bikeId}`} className="text-indigo-600 hover:text-indigo-800">
+          View setups
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h3 className="text-lg font-semibold mb-4">Save Setup to {bikeName}</h3>
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name, e.g. Whistler week"
+          className="w-full p-2 border border-gray-300 rounded-md text-sm"
+        />
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="Tags, comma separated"
+          className="w-full p-2 border border-gray-300 rounded-md text-sm"
+        />
+      </div>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {SNAPSHOT_TAG_SUGGESTIONS.map(tag => (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => addTag(tag)}
+            className="px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-700 hover:bg-gray-200"
+          >
+            + {tag}
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-700 mb-3">
+        <input type="checkbox" checked={makeActive} onChange={(e) => setMakeActive(e.target.checked)} />
+        Make this the bike&apos;s active setup
+      </label>
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="w-full bg-gray-800 text-white py-2 px-4 rounded-md text-sm hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {saving ? 'Saving...' : 'Save Setup'}
+      </button>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+// src/components/SnapshotComparison.tsx
+import { compareSnapshots, type SetupSnapshot } from '@/lib/setup-snapshots'
+import type { UnitPreferences } from '@/lib/units'
+
+interface SnapshotComparisonProps {
+  snapshots: SetupSnapshot[]
+  units: UnitPreferences
+}
+
+// Side-by-side table of saved setups; rows that differ are highlighted.
+export default function SnapshotComparison({ snapshots, units }: SnapshotComparisonProps) {
+  const rows = compareSnapshots(snapshots, units)
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b" style={{ borderColor: 'var(--border)' }}>
+            <th className="text-left py-2 pr-4 font-medium" style={{ color: 'var(--muted)' }}></th>
+            {snapshots.map(snapshot => (
+              <th key={snapshot.id} className="text-left py-2 pr-4 font-semibold" style={{ color: 'var(--foreground)' }}>
+                {snapshot.name}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr
+              key={row.label}
+              className="border-b last:border-b-0"
+              style={{ borderColor: 'var(--border)', backgroundColor: row.differs ? 'var(--surface-light)' : undefined }}
+            >
+              <td className="py-1 pr-4" style={{ color: 'var(--muted)' }}>{row.label}</td>
+              {row.values.map((value, index) => (
+                <td key={index} className={`py-1 pr-4 ${row.differs ? 'font-medium' : ''}`} style={{ color: 'var(--foreground)' }}>
+                  {value}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
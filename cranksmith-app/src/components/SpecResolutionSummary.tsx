@@ -0,0 +1,36 @@
+// src/components/SpecResolutionSummary.tsx
+import { SPEC_FIELD_LABELS, type ResolvedSpecs, type SpecField } from '@/lib/spec-resolution'
+
+interface SpecResolutionSummaryProps {
+  resolution: ResolvedSpecs
+}
+
+// Which catalog variant the specs came from, and which fields fell back to the family.
+export default function SpecResolutionSummary({ resolution }: SpecResolutionSummaryProps) {
+  const { specs, variants, fieldSources, inheritedFields, notes } = resolution
+  const overridden = Object.entries(fieldSources) as [SpecField, string][]
+
+  return (
+    <div className="text-sm text-gray-700">
+      <p className="font-medium mb-1">
+        Specs: {specs.brand} {specs.model}
+        <span className="text-gray-500 font-normal"> ({variants.length > 0 ? variants.join(', ') : 'current version'})</span>
+      </p>
+      {overridden.length > 0 && (
+        <ul className="text-xs text-gray-600 space-y-0.5 mb-1">
+          {overridden.map(([field, source]) => (
+            <li key={field}>{SPEC_FIELD_LABELS[field]}: {source}</li>
+          ))}
+        </ul>
+      )}
+      {inheritedFields.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Inherited from the {specs.model} family: {inheritedFields.map(field => SPEC_FIELD_LABELS[field]).join(', ')}
+        </p>
+      )}
+      {notes.map((note, index) => (
+        <p key={index} className="text-xs text-amber-700 mt-1">{note}</p>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+// src/components/SpringCurveChart.tsx
+import type { SpringCurvePoint } from '@/lib/air-spring'
+import { fromCanonical, type MassUnit } from '@/lib/units'
+
+interface SpringCurveChartProps {
+  points: SpringCurvePoint[]
+  targetSag: number // Percent of travel
+  massUnit: MassUnit
+}
+
+const WIDTH = 320
+const HEIGHT = 160
+const PADDING = { top: 16, right: 10, bottom: 24, left: 40 }
+
+// Force vs. travel for an air spring, with the target sag marked.
+export default function SpringCurveChart({ points, targetSag, massUnit }: SpringCurveChartProps) {
+  if (points.length < 2) return null
+
+  const forceLabel = massUnit === 'kg' ? 'kgf' : 'lbf'
+  const maxForce = Math.max(...points.map(point => point.forceLbs))
+  const x = (percent: number) => PADDING.left + (percent / 100) * (WIDTH - PADDING.left - PADDING.right)
+  const y = (forceLbs: number) => PADDING.top + (1 - forceLbs / maxForce) * (HEIGHT - PADDING.top - PADDING.bottom)
+  const line = points.map(point => `${x(point.travelPercent)},${y(point.forceLbs)}`).join(' ')
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Spring force against travel">
+      {[0, maxForce / 2, maxForce].map(force => (
+        <g key={force}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(force)} y2={y(force)} stroke="#e5e7eb" />
+          <text x={PADDING.left - 4} y={y(force) + 3} textAnchor="end" fontSize="9" fill="#6b7280">
+            {Math.round(fromCanonical('mass', force, massUnit))}
+          </text>
+        </g>
+      ))}
+      {[0, 25, 50, 75, 100].map(percent => (
+        <text key={percent} x={x(percent)} y={HEIGHT - 8} textAnchor="middle" fontSize="9" fill="#6b7280">{percent}%</text>
+      ))}
+      <line x1={x(targetSag)} x2={x(targetSag)} y1={PADDING.top} y2={HEIGHT - PADDING.bottom} stroke="#16a34a" strokeDasharray="4 3" />
+      <text x={x(targetSag) + 3} y={PADDING.top + 8} fontSize="9" fill="#16a34a">Sag</text>
+      <polyline points={line} fill="none" stroke="#2563eb" strokeWidth="2" />
+      <text x={PADDING.left} y={PADDING.top - 2} fontSize="9" fill="#6b7280">{forceLabel}</text>
+    </svg>
+  )
+}
@@ -0,0 +1,178 @@
+// src/components/SuspensionSnapshots.tsx
+'use client'
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import SnapshotComparison from '@/components/SnapshotComparison'
+import {
+  activateSnapshot,
+  deleteSnapshot,
+  fetchSnapshots,
+  type SetupSnapshot,
+  type SnapshotComponent
+} from '@/lib/setup-snapshots'
+import { formatPressure, type UnitPreferences } from '@/lib/units'
+
+interface SuspensionSnapshotsProps {
+  bikeId: string
+  units: UnitPreferences
+}
+
+// Saved suspension setups for a garage bike: filter by tag, switch the active setup,
+// compare side by side, or restore one in the calculator.
+export default function SuspensionSnapshots({ bikeId, units }: SuspensionSnapshotsProps) {
+  const [snapshots, setSnapshots] = useState<SetupSnapshot[]>([])
+  const [loading, setLoading] = useState(true)
+  const [tagFilter, setTagFilter] = useState<string | null>(null)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      setSnapshots(await fetchSnapshots(bikeId))
+      setLoading(false)
+    }
+    load()
+  }, [bikeId])
+
+  const allTags = [...new Set(snapshots.flatMap(snapshot => snapshot.tags))].sort()
+  const visible = tagFilter ? snapshots.filter(snapshot => snapshot.tags.includes(tagFilter)) : snapshots
+  const comparing = snapshots.filter(snapshot => snapshot.id && compareIds.includes(snapshot.id))
+
+  const handleActivate = async (snapshotId: string) => {
+    setBusyId(snapshotId)
+    if (await activateSnapshot(bikeId, snapshotId)) {
+      setSnapshots(current => current.map(snapshot => ({ ...snapshot, is_active: snapshot.id === snapshotId })))
+    }
+    setBusyId(null)
+  }
+
+  const handleDelete = async (snapshotId: string) => {
+    if (!confirm('Delete this setup?')) return
+    setBusyId(snapshotId)
+    if (await deleteSnapshot(snapshotId)) {
+      setSnapshots(current => current.filter(snapshot => snapshot.id !== snapshotId))
+      setCompareIds(current => current.filter(id => id !== snapshotId))
+    }
+    setBusyId(null)
+  }
+
+  const toggleCompare = (snapshotId: string) => {
+    setCompareIds(current => current.includes(snapshotId)
+      ? current.filter(id => id !== snapshotId)
+      : [...current, snapshotId])
+  }
+
+  const springSummary = (label: string, component: SnapshotComponent | null) => {
+    if (!component) return null
+    const spring = component.coilSpring ? `${component.springRate} lbs/in` : formatPressure(component.airPressure, units.pressure)
+    const measured = component.measuredSag ? ` (measured ${component.measuredSag.sagPercent}%)` : ''
+    return `${label} ${spring} @ ${component.targetSag}%${measured}`
+  }
+
+  return (
+    <div className="card mt-8">
+      <div className="card-header flex justify-between items-center">
+        <h3 className="text-lg font-semibold" style={{ color: 'var(--foreground)' }}>
+          Suspension Setups
+        </h3>
+        <Link href="/calculators/suspension" className="btn-secondary">
+          New Setup
+        </Link>
+      </div>
+      <div className="card-content">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="loading-spinner"></div>
+          </div>
+        ) : snapshots.length === 0 ? (
+          <p className="text-center py-6" style={{ color: 'var(--muted)' }}>
+            No saved setups yet. Calculate one in the suspension calculator and save it to this bike.
+          </p>
+        ) : (
+          <>
+            {allTags.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-4">
+                <button
+                  onClick={() => setTagFilter(null)}
+                  className={`badge ${tagFilter === null ? 'badge-premium' : 'badge-free'}`}
+                >
+                  All
+                </button>
+                {allTags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => setTagFilter(tag)}
+                    className={`badge ${tagFilter === tag ? 'badge-premium' : 'badge-free'}`}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              {visible.map(snapshot => (
+                <div key={snapshot.id} className="component-card p-4">
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="flex-1">
+                      <h5 className="font-medium" style={{ color: 'var(--foreground)' }}>
+                        {snapshot.name}
+                        {snapshot.is_active && <span className="badge badge-premium ml-2">Active</span>}
+                      </h5>
+                      <p className="text-sm mt-1" style={{ color: 'var(--muted)' }}>
+                        {[springSummary('Fork', snapshot.fork), springSummary('Shock', snapshot.shock)].filter(Boolean).join(' • ')}
+                      </p>
+                      <p className="text-sm mt-1" style={{ color: 'var(--muted-light)' }}>
+                        {snapshot.created_at && new Date(snapshot.created_at).toLocaleString()}
+                        {snapshot.tags.length > 0 && ` • ${snapshot.tags.join(', ')}`}
+                      </p>
+                    </div>
+                    <div className="flex flex-col items-end gap-2 text-sm">
+                      <label className="flex items-center gap-2" style={{ color: 'var(--muted)' }}>
+                        <input
+                          type="checkbox"
+                          checked={compareIds.includes(snapshot.id!)}
+                          onChange={() => toggleCompare(snapshot.id!)}
+                        />
+                        Compare
+                      </label>
+                      <div className="flex gap-3">
+                        {!snapshot.is_active && (
+                          <button
+                            onClick={() => handleActivate(snapshot.id!)}
+                            disabled={busyId === snapshot.id}
+                            className="text-primary hover:underline disabled:opacity-50"
+                          >
+                            Make active
+                          </button>
+                        )}
+                        <Link href={`/calculators/suspension?snapshot=${snapshot.id}`} className="text-primary hover:underline">
+                          Restore
+                        </Link>
+                        <button
+                          onClick={() => handleDelete(snapshot.id!)}
+                          disabled={busyId === snapshot.id}
+                          className="hover:underline disabled:opacity-50"
+                          style={{ color: 'var(--error)' }}
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {comparing.length >= 2 && (
+              <div className="mt-6">
+                <h4 className="font-semibold mb-3" style={{ color: 'var(--foreground)' }}>Comparison</h4>
+                <SnapshotComparison snapshots={comparing} units={units} />
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
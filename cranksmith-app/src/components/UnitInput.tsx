@@ -0,0 +1,63 @@
+// src/components/UnitInput.tsx
+'use client'
+import { useEffect, useState, type InputHTMLAttributes } from 'react'
+import {
+  fromCanonical,
+  roundForUnit,
+  toCanonical,
+  type Quantity,
+  type UnitPreferences
+} from '@/lib/units'
+
+// Number input that shows a canonical value (lbs / PSI / mm) in the rider's unit.
+// Put the unit in the field's label with `unitLabel`.
+// The typed text is kept as a draft so converting doesn't fight the cursor; the
+// canonical value is only re-derived when it changes from outside (or the unit changes).
+
+interface UnitInputProps<Q extends Quantity> extends Omit<InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange' | 'min' | 'max' | 'type'> {
+  quantity: Q
+  unit: UnitPreferences[Q]
+  value: number | '' | undefined
+  onChange: (canonicalValue: number | undefined) => void
+  min?: number // Canonical units
+  max?: number // Canonical units
+}
+
+function toDisplay<Q extends Quantity>(quantity: Q, canonical: number | '' | undefined, unit: UnitPreferences[Q]): string {
+  return canonical === '' || canonical === undefined ? '' : String(roundForUnit(quantity, fromCanonical(quantity, canonical, unit), unit))
+}
+
+export default function UnitInput<Q extends Quantity>({ quantity, unit, value, onChange, min, max, ...inputProps }: UnitInputProps<Q>) {
+  const [draft, setDraft] = useState(toDisplay(quantity, value, unit))
+  const [draftUnit, setDraftUnit] = useState(unit)
+
+  useEffect(() => {
+    const parsed = parseFloat(draft)
+    const draftCanonical = isNaN(parsed) ? undefined : toCanonical(quantity, parsed, draftUnit)
+    const current = value === '' ? undefined : value
+    const inSync = draftCanonical === current
+      || (draftCanonical !== undefined && current !== undefined && Math.abs(draftCanonical - current) < 1e-6)
+    if (!inSync || draftUnit !== unit) {
+      setDraft(toDisplay(quantity, value, unit))
+      setDraftUnit(unit)
+    }
+  }, [quantity, value, unit, draft, draftUnit])
+
+  const handleChange = (text: string) => {
+    setDraft(text)
+    const parsed = parseFloat(text)
+    onChange(isNaN(parsed) ? undefined : toCanonical(quantity, parsed, unit))
+  }
+
+  return (
+    <input
+      {...inputProps}
+      type="number"
+      value={draft}
+      onChange={(e) => handleChange(e.target.value)}
+      min={min !== undefined ? roundForUnit(quantity, fromCanonical(quantity, min, unit), unit) : undefined}
+      max={max !== undefined ? roundForUnit(quantity, fromCanonical(quantity, max, unit), unit) : undefined}
+      step="any"
+    />
+  )
+}
@@ -0,0 +1,65 @@
+// src/components/UnitPreferencesControl.tsx
+'use client'
+import { useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { UNIT_OPTIONS, unitLabel, type Quantity, type UnitPreferences } from '@/lib/units'
+
+interface UnitPreferencesControlProps {
+  userId?: string
+  value: UnitPreferences
+  onChange: (value: UnitPreferences) => void
+  quantities?: Quantity[] // Which selectors to show; defaults to all
+}
+
+const QUANTITY_LABELS: Record<Quantity, string> = {
+  mass: 'Weight',
+  pressure: 'Pressure',
+  length: 'Width',
+  temperature: 'Temperature',
+  altitude: 'Altitude'
+}
+
+// Compact unit selectors for calculator pages. Changes apply immediately and are
+// saved to `profiles.unit_preferences` so every calculator picks them up.
+export default function UnitPreferencesControl({ userId, value, onChange, quantities = ['mass', 'pressure', 'length', 'temperature', 'altitude'] }: UnitPreferencesControlProps) {
+  const [saving, setSaving] = useState(false)
+
+  const handleChange = async (quantity: Quantity, unit: string) => {
+    const updated = { ...value, [quantity]: unit } as UnitPreferences
+    onChange(updated)
+
+    if (!userId) return
+    setSaving(true)
+    const { error } = await supabase
+      .from('profiles')
+      .update({ unit_preferences: updated })
+      .eq('id', userId)
+    if (error) {
+      console.error('Error saving unit preferences:', error)
+    }
+    setSaving(false)
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+      <span className="font-medium">Units:</span>
+      {quantities.map(quantity => (
+        <label key={quantity} className="flex items-center space-x-1">
+          <span>{QUANTITY_LABELS[quantity]}</span>
+          <select
+            value={value[quantity]}
+            onChange={(e) => handleChange(quantity, e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+          >
+            {UNIT_OPTIONS[quantity].map(unit => (
+              <option key={unit} value={unit}>
+                {unitLabel(quantity, unit)}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+      {saving && <span className="text-xs text-gray-400">Saving…</span>}
+    </div>
+  )
+}
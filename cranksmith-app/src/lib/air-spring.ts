@@ -0,0 +1,142 @@
+// src/lib/air-spring.ts
+// Air-spring model for forks and shocks. The positive chamber is compressed as the
+// piston moves into it and the negative chamber is expanded, both isothermally
+// (Boyle's law). The chambers equalise at top-out, so the spring force starts at zero
+// and every force on the curve scales with the charge pressure. That makes solving
+// for the pressure that gives a target sag a closed-form calculation.
+
+import type { SuspensionSpecs } from './suspension-logic'
+
+// --- Constants ---
+
+const ATMOSPHERE_PSI = 14.7
+const MM2_PER_IN2 = 645.16
+const MM3_PER_CC = 1000
+
+// A fork's air piston runs inside the stanchion, so it is a little smaller than the
+// stanchion's outside diameter.
+const FORK_STANCHION_WALL_MM = 2
+
+// `stanchion_diameter_mm` is the damper shaft for shocks, which says nothing about
+// the air can. This is a typical air piston for a trail/enduro shock.
+const DEFAULT_SHOCK_PISTON_DIAMETER_MM = 44
+
+// Positive volume per mm of stroke for air shocks without a known volume, the
+// average across the shocks seeded into the products catalog.
+const ESTIMATED_SHOCK_VOLUME_CC_PER_MM = 3.8
+
+// Volume removed by one spacer/token. Brands differ; these are typical values.
+const SPACER_VOLUME_CC = {
+  fork: 10,
+  shock: 5
+}
+
+// Negative chamber volume as a share of the positive chamber when the spec doesn't
+// give one. A bigger negative chamber softens the start of the stroke and flattens
+// the mid-stroke, which is how the manufacturers tune 'linear' and 'digressive' springs.
+const NEGATIVE_VOLUME_RATIO = {
+  linear: 0.1,
+  progressive: 0.06,
+  digressive: 0.15
+}
+
+// Past this positive-chamber compression ratio at bottom-out the spring is too
+// progressive to use full travel, so spacer counts are capped to stay below it.
+const MAX_COMPRESSION_RATIO = 4
+
+const DEFAULT_CURVE_POINTS = 20
+
+// --- Interfaces ---
+
+export type SuspensionType = 'fork' | 'shock'
+
+export interface AirSpringConfig {
+  pistonAreaMm2: number
+  positiveVolumeCc: number // After volume spacers
+  negativeVolumeCc: number
+  travelMm: number // Fork travel or shock stroke
+  volumeSpacers: number
+  estimatedVolume: boolean // True when the positive volume was estimated from stroke
+}
+
+export interface SpringCurvePoint {
+  travelMm: number
+  travelPercent: number
+  forceLbs: number // Net spring force along the fork/shock axis (lbf)
+  pressurePsi: number // Positive chamber gauge pressure
+}
+
+// --- Helper Functions ---
+
+function compressionGain(config: AirSpringConfig, travelMm: number): number {
+  const displacedCc = config.pistonAreaMm2 * travelMm / MM3_PER_CC
+  const positive = config.positiveVolumeCc / (config.positiveVolumeCc - displacedCc)
+  const negative = config.negativeVolumeCc / (config.negativeVolumeCc + displacedCc)
+  return positive - negative
+}
+
+export function maxVolumeSpacers(specs: SuspensionSpecs, type: SuspensionType): number {
+  const base = getAirSpringConfig(specs, type)
+  if (!base) return 0
+  const displacedCc = base.pistonAreaMm2 * base.travelMm / MM3_PER_CC
+  // Smallest positive volume that keeps the bottom-out compression ratio in range
+  const minVolumeCc = displacedCc * MAX_COMPRESSION_RATIO / (MAX_COMPRESSION_RATIO - 1)
+  return Math.max(0, Math.floor((base.positiveVolumeCc - minVolumeCc) / SPACER_VOLUME_CC[type]))
+}
+
+// --- Air Spring ---
+
+// Returns null for coil units and forks without a known air volume. Air shocks
+// without one get a volume estimated from their stroke.
+export function getAirSpringConfig(specs: SuspensionSpecs, type: SuspensionType, volumeSpacers = 0): AirSpringConfig | null {
+  if (!specs.travel_mm || !specs.max_pressure_psi || specs.spring_curve === 'coil') return null
+  const estimatedVolume = !specs.air_chamber_volume_cc
+  if (estimatedVolume && type === 'fork') return null
+  const positiveVolumeCc = specs.air_chamber_volume_cc || specs.travel_mm * ESTIMATED_SHOCK_VOLUME_CC_PER_MM
+
+  const pistonDiameterMm = specs.air_piston_diameter_mm
+    ?? (type === 'fork' ? specs.stanchion_diameter_mm - 2 * FORK_STANCHION_WALL_MM : DEFAULT_SHOCK_PISTON_DIAMETER_MM)
+  const negativeRatio = NEGATIVE_VOLUME_RATIO[specs.spring_curve as keyof typeof NEGATIVE_VOLUME_RATIO] ?? NEGATIVE_VOLUME_RATIO.progressive
+
+  return {
+    pistonAreaMm2: Math.PI * Math.pow(pistonDiameterMm / 2, 2),
+    positiveVolumeCc: positiveVolumeCc - volumeSpacers * SPACER_VOLUME_CC[type],
+    negativeVolumeCc: specs.negative_chamber_volume_cc ?? positiveVolumeCc * negativeRatio,
+    travelMm: specs.travel_mm,
+    volumeSpacers,
+    estimatedVolume
+  }
+}
+
+// Net spring force at a point in the travel for a given gauge charge pressure.
+export function springForceLbs(config: AirSpringConfig, pressurePsi: number, travelMm: number): number {
+  const absolutePsi = pressurePsi + ATMOSPHERE_PSI
+  return absolutePsi * compressionGain(config, travelMm) * config.pistonAreaMm2 / MM2_PER_IN2
+}
+
+// Gauge pressure that holds `loadLbs` (along the fork/shock axis) at `sagMm`.
+export function solvePressureForSag(config: AirSpringConfig, loadLbs: number, sagMm: number): number {
+  const absolutePsi = loadLbs / (compressionGain(config, sagMm) * config.pistonAreaMm2 / MM2_PER_IN2)
+  return absolutePsi - ATMOSPHERE_PSI
+}
+
+// Pressure that gives the same spring force at `toSagMm` as `pressurePsi` does at
+// `fromSagMm`, e.g. to move a chart's 20% sag row to a 25% sag target.
+export function convertPressureForSag(config: AirSpringConfig, pressurePsi: number, fromSagMm: number, toSagMm: number): number {
+  const absolutePsi = (pressurePsi + ATMOSPHERE_PSI) * compressionGain(config, fromSagMm) / compressionGain(config, toSagMm)
+  return absolutePsi - ATMOSPHERE_PSI
+}
+
+export function buildSpringCurve(config: AirSpringConfig, pressurePsi: number, points = DEFAULT_CURVE_POINTS): SpringCurvePoint[] {
+  const absolutePsi = pressurePsi + ATMOSPHERE_PSI
+  return Array.from({ length: points + 1 }, (_, i) => {
+    const travelMm = config.travelMm * i / points
+    const displacedCc = config.pistonAreaMm2 * travelMm / MM3_PER_CC
+    return {
+      travelMm,
+      travelPercent: 100 * i / points,
+      forceLbs: springForceLbs(config, pressurePsi, travelMm),
+      pressurePsi: absolutePsi * config.positiveVolumeCc / (config.positiveVolumeCc - displacedCc) - ATMOSPHERE_PSI
+    }
+  })
+}
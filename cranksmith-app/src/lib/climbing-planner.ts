@@ -0,0 +1,210 @@
+// FILE: src/lib/climbing-planner.ts
+
+// Is the easiest gear low enough for a climb? The speed a rider holds on a gradient
+// comes from a power balance: sustainable power at the cranks, less drivetrain losses,
+// goes into lifting the system weight, rolling resistance and aero drag. That speed
+// and the rider's minimum acceptable cadence give the tallest gear that still works,
+// which drivetrains are checked against. Losses are those of the gear being climbed
+// in (see drivetrain-efficiency.ts): a small ring on a big cog is cross-chained and
+// articulates the chain more than the plan's default assumes.
+
+import { GearRatio } from './gear-logic';
+import { calculateChainAngleDeg, estimateDrivetrainLosses, resolveDrivetrainGeometry } from './drivetrain-efficiency';
+import type { SurfaceType } from './pressure-models';
+import { lbsToKg } from './units';
+
+// --- Constants ---
+
+const GRAVITY = 9.81;             // m/s^2
+const AIR_DENSITY = 1.225;        // kg/m^3, sea level
+const DEFAULT_CDA_M2 = 0.4;       // Seated upright climbing position
+const MAX_CLIMB_SPEED_MS = 30;
+
+// Rolling resistance coefficient by surface (typical 28-50 mm tires).
+const ROLLING_RESISTANCE: Record<SurfaceType, number> = {
+  pavement: 0.005,
+  poor_pavement: 0.007,
+  mixed: 0.009,
+  gravel_hardpack: 0.011,
+  gravel_loose: 0.016,
+};
+
+export const DEFAULT_MIN_CLIMB_CADENCE = 70;
+
+// Until the gear is known: a clean drivetrain in a low, fairly straight gear.
+export const DEFAULT_DRIVETRAIN_EFFICIENCY_PERCENT = 97.5;
+
+// --- Interfaces ---
+
+export interface ClimbPlanInputs {
+  systemWeightLbs: number;    // Rider plus bike and gear
+  powerWatts: number;         // Sustainable power for the length of the climb
+  gradientPercent: number;
+  minCadenceRpm: number;
+  surfaceType?: SurfaceType;  // Defaults to pavement
+  cdaM2?: number;
+  drivetrainEfficiencyPercent?: number;  // Of the gear climbed in; defaults to DEFAULT_DRIVETRAIN_EFFICIENCY_PERCENT
+}
+
+export interface ClimbPlan {
+  speedKmh: number;
+  requiredRatio: number;      // Tallest gear that keeps the minimum cadence at that speed
+  wheelCircumferenceMm: number;
+  powerSplit: { gravityWatts: number; rollingWatts: number; aeroWatts: number; drivetrainWatts: number };
+  inputs: ClimbPlanInputs;    // Rebalanced with each drivetrain's own losses
+}
+
+export interface DrivetrainClimbCheck {
+  lowestGear: GearRatio;
+  speedKmh: number;           // Climb speed with the easiest gear's losses
+  cadenceInLowest: number;    // Cadence that speed needs in the easiest gear
+  lowEnough: boolean;
+  marginPercent: number;      // How much easier (+) or harder (-) the easiest gear is than required
+}
+
+export interface CranksetOption {
+  id: string;
+  label: string;
+  chainrings: number[];
+  speeds?: number;
+  chainlineMm?: number;
+}
+
+export interface CassetteOption {
+  id: string;
+  label: string;
+  cogs: number[];
+  speeds?: number;
+}
+
+export interface ComboRecommendation {
+  crankset: CranksetOption;
+  cassette: CassetteOption;
+  lowestRatio: number;
+  highestRatio: number;
+  efficiencyPercent: number;  // Of the easiest gear
+  cadenceInLowest: number;
+}
+
+// --- Helper Functions ---
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// Watts at the cranks needed to hold a speed on the climb, split by where it goes.
+function powerDemand(speedMs: number, inputs: ClimbPlanInputs) {
+  const massKg = lbsToKg(inputs.systemWeightLbs);
+  const angle = Math.atan(inputs.gradientPercent / 100);
+  const crr = ROLLING_RESISTANCE[inputs.surfaceType || 'pavement'];
+
+  const gravityWatts = massKg * GRAVITY * Math.sin(angle) * speedMs;
+  const rollingWatts = massKg * GRAVITY * Math.cos(angle) * crr * speedMs;
+  const aeroWatts = 0.5 * AIR_DENSITY * (inputs.cdaM2 || DEFAULT_CDA_M2) * speedMs ** 3;
+  const wheelWatts = gravityWatts + rollingWatts + aeroWatts;
+  const efficiency = (inputs.drivetrainEfficiencyPercent ?? DEFAULT_DRIVETRAIN_EFFICIENCY_PERCENT) / 100;
+  return { gravityWatts, rollingWatts, aeroWatts, drivetrainWatts: wheelWatts / efficiency - wheelWatts, total: wheelWatts / efficiency };
+}
+
+// Crank revolutions per minute to ride at a speed in a ratio
+function cadenceAt(speedKmh: number, ratio: number, wheelCircumferenceMm: number): number {
+  return (speedKmh * 1_000_000) / 60 / (ratio * wheelCircumferenceMm);
+}
+
+// Tallest ratio that keeps a cadence at a speed
+function ratioFor(speedKmh: number, cadenceRpm: number, wheelCircumferenceMm: number): number {
+  return (speedKmh * 1_000_000) / 60 / (cadenceRpm * wheelCircumferenceMm);
+}
+
+// --- Planner ---
+
+// Speed held on the climb at the given power. Demand rises monotonically with
+// speed, so a bisection is enough.
+export function calculateClimbSpeedKmh(inputs: ClimbPlanInputs): number {
+  if (inputs.powerWatts <= 0 || inputs.systemWeightLbs <= 0) return 0;
+
+  let low = 0;
+  let high = MAX_CLIMB_SPEED_MS;
+  for (let i = 0; i < 60; i++) {
+    const middle = (low + high) / 2;
+    if (powerDemand(middle, inputs).total > inputs.powerWatts) high = middle;
+    else low = middle;
+  }
+  return round(low * 3.6, 2);
+}
+
+export function planClimb(inputs: ClimbPlanInputs, wheelCircumferenceMm: number): ClimbPlan | null {
+  const speedKmh = calculateClimbSpeedKmh(inputs);
+  if (speedKmh <= 0 || inputs.minCadenceRpm <= 0) return null;
+
+  const demand = powerDemand(speedKmh / 3.6, inputs);
+  return {
+    speedKmh: round(speedKmh, 1),
+    requiredRatio: round(ratioFor(speedKmh, inputs.minCadenceRpm, wheelCircumferenceMm), 2),
+    wheelCircumferenceMm,
+    powerSplit: {
+      gravityWatts: Math.round(demand.gravityWatts),
+      rollingWatts: Math.round(demand.rollingWatts),
+      aeroWatts: Math.round(demand.aeroWatts),
+      drivetrainWatts: Math.round(demand.drivetrainWatts),
+    },
+    inputs,
+  };
+}
+
+// The easiest gear is checked at the speed its own losses allow, which is a little
+// slower than the plan's when it is cross-chained.
+export function checkDrivetrainForClimb(gears: GearRatio[], plan: ClimbPlan): DrivetrainClimbCheck | null {
+  if (gears.length === 0) return null;
+
+  const { minCadenceRpm } = plan.inputs;
+  const lowestGear = gears.reduce((lowest, gear) => gear.chainring / gear.cog < lowest.chainring / lowest.cog ? gear : lowest);
+  const lowestRatio = lowestGear.chainring / lowestGear.cog;
+  const speedKmh = calculateClimbSpeedKmh({ ...plan.inputs, drivetrainEfficiencyPercent: lowestGear.efficiencyPercent });
+  const cadenceInLowest = cadenceAt(speedKmh, lowestRatio, plan.wheelCircumferenceMm);
+  return {
+    lowestGear,
+    speedKmh: round(speedKmh, 1),
+    cadenceInLowest: Math.round(cadenceInLowest),
+    lowEnough: cadenceInLowest >= minCadenceRpm,
+    marginPercent: Math.round((ratioFor(speedKmh, minCadenceRpm, plan.wheelCircumferenceMm) / lowestRatio - 1) * 100),
+  };
+}
+
+// Crankset x cassette pairings whose easiest gear is low enough, keeping as much top
+// end as possible. Each pairing's easiest gear is rebalanced with its estimated
+// losses. Pairings with a known, different speed count are skipped.
+export function recommendCombinations(cranksets: CranksetOption[], cassettes: CassetteOption[], plan: ClimbPlan, limit: number = 5): ComboRecommendation[] {
+  const recommendations: ComboRecommendation[] = [];
+
+  for (const crankset of cranksets) {
+    if (crankset.chainrings.length === 0) continue;
+    for (const cassette of cassettes) {
+      if (cassette.cogs.length === 0) continue;
+      if (crankset.speeds && cassette.speeds && crankset.speeds !== cassette.speeds) continue;
+
+      const smallestRing = Math.min(...crankset.chainrings);
+      const largestCog = Math.max(...cassette.cogs);
+      const lowestRatio = smallestRing / largestCog;
+      if (lowestRatio > plan.requiredRatio) continue;
+
+      const geometry = resolveDrivetrainGeometry(crankset.chainrings, cassette.cogs, { chainlineMm: crankset.chainlineMm, cassetteSpeeds: cassette.speeds });
+      const chainAngleDeg = calculateChainAngleDeg(smallestRing, largestCog, crankset.chainrings, cassette.cogs, geometry);
+      const efficiencyPercent = round(100 - estimateDrivetrainLosses(smallestRing, largestCog, chainAngleDeg).totalPercent, 1);
+      const speedKmh = calculateClimbSpeedKmh({ ...plan.inputs, drivetrainEfficiencyPercent: efficiencyPercent });
+      const cadenceInLowest = cadenceAt(speedKmh, lowestRatio, plan.wheelCircumferenceMm);
+      if (cadenceInLowest < plan.inputs.minCadenceRpm) continue;
+
+      recommendations.push({
+        crankset,
+        cassette,
+        lowestRatio: round(lowestRatio, 2),
+        highestRatio: round(Math.max(...crankset.chainrings) / Math.min(...cassette.cogs), 2),
+        efficiencyPercent,
+        cadenceInLowest: Math.round(cadenceInLowest),
+      });
+    }
+  }
+
+  return recommendations
+    .sort((a, b) => b.highestRatio - a.highestRatio || b.lowestRatio - a.lowestRatio)
+    .slice(0, limit);
+}
@@ -0,0 +1,77 @@
+// src/lib/coil-springs.ts
+// Coil spring selection for forks and shocks. A coil is linear, so the rate needed is
+// simply the load at the fork/shock divided by the sag distance. Springs only come in
+// fixed steps, so we pick the nearest one and show what sag the neighbouring sizes give.
+
+import type { SuspensionType } from './air-spring'
+
+// --- Constants ---
+
+const N_PER_MM_PER_LBS_PER_IN = 0.175127
+const MM_PER_IN = 25.4
+
+// Rates (lbs/in) stocked by the main spring lines. Shock springs (Fox SLS, RockShox,
+// Cane Creek VALT) come in 25 lb steps; fork springs (Marzocchi, Öhlins, MRP) in
+// much smaller steps because the fork carries far less load per mm of travel.
+export const COIL_SPRING_RATES: Record<SuspensionType, number[]> = {
+  fork: [25, 30, 35, 40, 45, 50, 55, 60, 65, 70],
+  shock: [250, 275, 300, 325, 350, 375, 400, 425, 450, 475, 500, 525, 550, 575, 600, 625, 650, 675, 700, 750, 800]
+}
+
+// --- Interfaces ---
+
+export interface CoilSpringOption {
+  rateLbsIn: number
+  rateNmm: number
+  sagMm: number
+  sagPercent: number
+}
+
+export interface CoilSpringSelection {
+  requiredRateLbsIn: number
+  requiredRateNmm: number
+  selected: CoilSpringOption
+  softer?: CoilSpringOption // One catalog size below the selected spring
+  firmer?: CoilSpringOption // One catalog size above
+}
+
+// --- Helper Functions ---
+
+export function lbsInToNmm(rateLbsIn: number): number {
+  return rateLbsIn * N_PER_MM_PER_LBS_PER_IN
+}
+
+// Rate that compresses by `sagMm` under `loadLbs` (along the fork/shock axis).
+export function requiredSpringRate(loadLbs: number, sagMm: number): number {
+  return loadLbs / (sagMm / MM_PER_IN)
+}
+
+function springOption(rateLbsIn: number, loadLbs: number, travelMm: number): CoilSpringOption {
+  const sagMm = loadLbs / rateLbsIn * MM_PER_IN
+  return {
+    rateLbsIn,
+    rateNmm: lbsInToNmm(rateLbsIn),
+    sagMm,
+    sagPercent: sagMm / travelMm * 100
+  }
+}
+
+// --- Selection ---
+
+export function selectCoilSpring(type: SuspensionType, loadLbs: number, travelMm: number, targetSagPercent: number): CoilSpringSelection {
+  const requiredRateLbsIn = requiredSpringRate(loadLbs, travelMm * targetSagPercent / 100)
+  const rates = COIL_SPRING_RATES[type]
+
+  let index = 0
+  rates.forEach((rate, i) => {
+    if (Math.abs(rate - requiredRateLbsIn) < Math.abs(rates[index] - requiredRateLbsIn)) index = i
+  })
+
+  return {
+    requiredRateLbsIn,
+    requiredRateNmm: lbsInToNmm(requiredRateLbsIn),
+    selected: springOption(rates[index], loadLbs, travelMm),
+    softer: index > 0 ? springOption(rates[index - 1], loadLbs, travelMm) : undefined,
+    firmer: index < rates.length - 1 ? springOption(rates[index + 1], loadLbs, travelMm) : undefined
+  }
+}
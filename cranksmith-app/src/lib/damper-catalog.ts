@@ -0,0 +1,150 @@
+// src/lib/damper-catalog.ts
+// Damper baselines. Each damper lists its external adjusters with the number of clicks
+// and a baseline position by rider weight, counted as clicks from fully closed (the
+// firmest / slowest setting). Heavier riders need more damping, so their baselines sit
+// closer to closed. Riding style then nudges compression firmer or softer.
+
+import { interpolate, type NumericTable } from './interpolation'
+import type { SuspensionCalculationInputs } from './suspension-logic'
+
+// --- Interfaces ---
+
+export type DamperAdjuster = 'hsc' | 'lsc' | 'hsr' | 'lsr'
+
+export type RidingStyle = SuspensionCalculationInputs['ridingStyle']
+
+export interface DamperAdjusterSpec {
+  clicks: number // Total clicks from fully closed to fully open
+  baseline: NumericTable // Clicks from closed, keyed by rider + gear weight (lbs)
+}
+
+export interface DamperSpec {
+  brand: string
+  name: string
+  adjusters: Partial<Record<DamperAdjuster, DamperAdjusterSpec>>
+}
+
+export interface DamperSetting {
+  clicksFromClosed: number
+  totalClicks: number
+}
+
+export interface DamperSettings {
+  damper: string
+  adjusters: Partial<Record<DamperAdjuster, DamperSetting>>
+}
+
+// --- Constants ---
+
+export const DAMPER_ADJUSTER_LABELS: Record<DamperAdjuster, string> = {
+  hsc: 'High-Speed Compression',
+  lsc: 'Low-Speed Compression',
+  hsr: 'High-Speed Rebound',
+  lsr: 'Low-Speed Rebound'
+}
+
+// Clicks added to the compression baselines (more clicks = more open). XC riders want
+// a firmer platform for pedalling; enduro and DH riders want support for big hits.
+const STYLE_COMPRESSION_OFFSET: Record<RidingStyle, number> = {
+  xc: -2,
+  trail: 0,
+  enduro: -1,
+  dh: -1,
+  casual: 2
+}
+
+// NOTE: Click counts are for current model years and baselines are APPROXIMATE,
+// condensed from the manufacturers' setup guides. Dampers are tuned per chassis, so
+// treat these as a starting point and adjust a few clicks at a time.
+
+export const DAMPER_CATALOG: Record<string, DamperSpec> = {
+  // --- FORK DAMPERS ---
+  'Charger 3': {
+    brand: 'RockShox',
+    name: 'Charger 3 RC2',
+    adjusters: {
+      hsc: { clicks: 5, baseline: { 120: 4, 180: 3, 240: 2 } },
+      lsc: { clicks: 5, baseline: { 120: 4, 180: 3, 240: 2 } },
+      lsr: { clicks: 15, baseline: { 120: 12, 160: 10, 200: 8, 240: 6 } }
+    }
+  },
+  'Charger 2.1 RC2': {
+    brand: 'RockShox',
+    name: 'Charger 2.1 RC2',
+    adjusters: {
+      hsc: { clicks: 5, baseline: { 120: 4, 180: 3, 240: 1 } },
+      lsc: { clicks: 10, baseline: { 120: 8, 180: 6, 240: 4 } },
+      lsr: { clicks: 18, baseline: { 120: 14, 160: 12, 200: 9, 240: 7 } }
+    }
+  },
+  'GRIP2': {
+    brand: 'Fox',
+    name: 'GRIP2',
+    adjusters: {
+      hsc: { clicks: 8, baseline: { 120: 7, 180: 5, 240: 3 } },
+      lsc: { clicks: 16, baseline: { 120: 13, 180: 10, 240: 7 } },
+      hsr: { clicks: 8, baseline: { 120: 7, 180: 5, 240: 3 } },
+      lsr: { clicks: 16, baseline: { 120: 13, 160: 11, 200: 8, 240: 6 } }
+    }
+  },
+  'GRIP X2': {
+    brand: 'Fox',
+    name: 'GRIP X2',
+    adjusters: {
+      hsc: { clicks: 8, baseline: { 120: 7, 180: 5, 240: 3 } },
+      lsc: { clicks: 12, baseline: { 120: 10, 180: 8, 240: 5 } },
+      hsr: { clicks: 8, baseline: { 120: 7, 180: 5, 240: 3 } },
+      lsr: { clicks: 12, baseline: { 120: 10, 160: 8, 200: 6, 240: 4 } }
+    }
+  },
+
+  // --- SHOCK DAMPERS ---
+  'Float X2': {
+    brand: 'Fox',
+    name: 'Float X2',
+    adjusters: {
+      hsc: { clicks: 8, baseline: { 120: 6, 180: 4, 240: 3 } },
+      lsc: { clicks: 16, baseline: { 120: 13, 180: 10, 240: 7 } },
+      hsr: { clicks: 8, baseline: { 120: 7, 180: 5, 240: 3 } },
+      lsr: { clicks: 16, baseline: { 120: 12, 160: 10, 200: 8, 240: 6 } }
+    }
+  },
+  'DHX2': {
+    brand: 'Fox',
+    name: 'DHX2',
+    adjusters: {
+      hsc: { clicks: 8, baseline: { 120: 6, 180: 4, 240: 3 } },
+      lsc: { clicks: 16, baseline: { 120: 13, 180: 10, 240: 7 } },
+      hsr: { clicks: 8, baseline: { 120: 7, 180: 5, 240: 3 } },
+      lsr: { clicks: 16, baseline: { 120: 12, 160: 10, 200: 8, 240: 6 } }
+    }
+  },
+  'Super Deluxe RC2T': {
+    brand: 'RockShox',
+    name: 'Super Deluxe RC2T',
+    adjusters: {
+      hsc: { clicks: 3, baseline: { 120: 3, 180: 2, 240: 1 } },
+      lsc: { clicks: 5, baseline: { 120: 4, 180: 3, 240: 2 } },
+      lsr: { clicks: 10, baseline: { 120: 8, 160: 7, 200: 5, 240: 4 } }
+    }
+  }
+}
+
+// --- Recommendations ---
+
+export function recommendDamperSettings(damper: string | undefined, totalWeightLbs: number, ridingStyle: RidingStyle): DamperSettings | null {
+  const spec = damper ? DAMPER_CATALOG[damper] : undefined
+  if (!spec || !damper) return null
+
+  const adjusters: DamperSettings['adjusters'] = {}
+  for (const [adjuster, range] of Object.entries(spec.adjusters) as [DamperAdjuster, DamperAdjusterSpec][]) {
+    const offset = adjuster === 'hsc' || adjuster === 'lsc' ? STYLE_COMPRESSION_OFFSET[ridingStyle] : 0
+    const clicks = Math.round(interpolate(range.baseline, totalWeightLbs).value) + offset
+    adjusters[adjuster] = {
+      clicksFromClosed: Math.max(0, Math.min(range.clicks, clicks)),
+      totalClicks: range.clicks
+    }
+  }
+
+  return { damper: spec.name, adjusters }
+}
@@ -0,0 +1,143 @@
+// src/lib/frame-kinematics.ts
+// Rear suspension kinematics per frame. A shock only sees the rear wheel load
+// multiplied by the frame's leverage ratio (wheel travel per mm of shock stroke), and
+// on most modern frames that ratio falls through the stroke to make the suspension
+// progressive. Setting up a shock without it is like setting up a fork without
+// knowing the rider's weight.
+
+import { interpolate, type NumericTable } from './interpolation'
+
+// --- Interfaces ---
+
+export interface FrameKinematics {
+  brand: string
+  model: string
+  sizes: string[] // Frame sizes this curve applies to
+  wheelTravelMm: number
+  shockEyeToEyeMm: number
+  shockStrokeMm: number
+  // Leverage ratio keyed by percent of shock stroke (0 = top-out, 100 = bottom-out)
+  leverageCurve: NumericTable
+}
+
+// NOTE: Leverage curves are APPROXIMATE, digitised from published kinematics charts
+// and checked so the curve integrates to the rated wheel travel. Frame revisions and
+// flip-chip settings move them slightly.
+
+export const FRAME_KINEMATICS: FrameKinematics[] = [
+  // --- SANTA CRUZ ---
+  {
+    brand: 'Santa Cruz',
+    model: 'Hightower',
+    sizes: ['S', 'M', 'L', 'XL', 'XXL'],
+    wheelTravelMm: 145,
+    shockEyeToEyeMm: 210,
+    shockStrokeMm: 55,
+    leverageCurve: { 0: 2.95, 25: 2.78, 50: 2.62, 75: 2.5, 100: 2.42 }
+  },
+  {
+    brand: 'Santa Cruz',
+    model: 'Megatower',
+    sizes: ['S', 'M', 'L', 'XL', 'XXL'],
+    wheelTravelMm: 165,
+    shockEyeToEyeMm: 230,
+    shockStrokeMm: 65,
+    leverageCurve: { 0: 2.85, 25: 2.64, 50: 2.5, 75: 2.4, 100: 2.33 }
+  },
+
+  // --- SPECIALIZED ---
+  {
+    brand: 'Specialized',
+    model: 'Stumpjumper EVO',
+    sizes: ['S1', 'S2', 'S3', 'S4', 'S5', 'S6'],
+    wheelTravelMm: 150,
+    shockEyeToEyeMm: 210,
+    shockStrokeMm: 55,
+    leverageCurve: { 0: 2.98, 25: 2.82, 50: 2.72, 75: 2.64, 100: 2.58 }
+  },
+  {
+    brand: 'Specialized',
+    model: 'Epic',
+    sizes: ['XS', 'S', 'M', 'L', 'XL'],
+    wheelTravelMm: 100,
+    shockEyeToEyeMm: 190,
+    shockStrokeMm: 45,
+    leverageCurve: { 0: 2.36, 25: 2.26, 50: 2.21, 75: 2.18, 100: 2.17 }
+  },
+
+  // --- TREK ---
+  {
+    brand: 'Trek',
+    model: 'Fuel EX',
+    sizes: ['XS', 'S', 'M', 'ML', 'L', 'XL', 'XXL'],
+    wheelTravelMm: 140,
+    shockEyeToEyeMm: 210,
+    shockStrokeMm: 55,
+    leverageCurve: { 0: 2.78, 25: 2.6, 50: 2.52, 75: 2.47, 100: 2.45 }
+  },
+
+  // --- YT ---
+  {
+    brand: 'YT',
+    model: 'Capra',
+    sizes: ['S', 'M', 'L', 'XL', 'XXL'],
+    wheelTravelMm: 170,
+    shockEyeToEyeMm: 230,
+    shockStrokeMm: 65,
+    leverageCurve: { 0: 2.95, 25: 2.72, 50: 2.57, 75: 2.47, 100: 2.4 }
+  },
+
+  // --- TRANSITION ---
+  {
+    brand: 'Transition',
+    model: 'Sentinel',
+    sizes: ['XS', 'S', 'M', 'L', 'XL', 'XXL'],
+    wheelTravelMm: 160,
+    shockEyeToEyeMm: 230,
+    shockStrokeMm: 62.5,
+    leverageCurve: { 0: 2.78, 25: 2.62, 50: 2.54, 75: 2.49, 100: 2.46 }
+  },
+
+  // --- CANYON ---
+  {
+    brand: 'Canyon',
+    model: 'Spectral',
+    sizes: ['S', 'M', 'L', 'XL'],
+    wheelTravelMm: 150,
+    shockEyeToEyeMm: 210,
+    shockStrokeMm: 55,
+    leverageCurve: { 0: 3.05, 25: 2.83, 50: 2.7, 75: 2.62, 100: 2.56 }
+  }
+]
+
+// --- Helper Functions ---
+
+// Case-insensitive match on brand and model. Bike models in the garage often carry a
+// trim or year ("Hightower CC X01"), so a model that starts with a catalog model matches.
+export function getFrameKinematics(brand: string, model: string, size?: string): FrameKinematics | null {
+  const normalizedBrand = brand.trim().toLowerCase()
+  const normalizedModel = model.trim().toLowerCase()
+  const candidates = FRAME_KINEMATICS.filter(frame =>
+    frame.brand.toLowerCase() === normalizedBrand &&
+    normalizedModel.startsWith(frame.model.toLowerCase())
+  )
+  if (!size) return candidates[0] ?? null
+  return candidates.find(frame => frame.sizes.includes(size)) ?? candidates[0] ?? null
+}
+
+export function frameKey(frame: FrameKinematics): string {
+  return `${frame.brand} ${frame.model}`
+}
+
+// Leverage ratio at a point in the shock stroke.
+export function leverageRatioAt(frame: FrameKinematics, strokePercent: number): number {
+  return interpolate(frame.leverageCurve, strokePercent).value
+}
+
+// How much the leverage ratio falls from top-out to bottom-out, in percent.
+// Around 15-25% suits air shocks; coil shocks usually want 25% or more.
+export function leverageProgression(frame: FrameKinematics): number {
+  const start = leverageRatioAt(frame, 0)
+  const end = leverageRatioAt(frame, 100)
+  return (start - end) / start * 100
+}
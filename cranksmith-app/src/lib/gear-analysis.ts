@@ -0,0 +1,180 @@
+// FILE: src/lib/gear-analysis.ts
+
+// Which of a drivetrain's gears are worth using. A combination's chain angle (see
+// drivetrain-efficiency.ts) decides whether it is cross-chained. Near-duplicate ratios
+// across chainrings are collapsed, the remaining gears form the usable progression,
+// and for 2x/3x drivetrains a shift sequence says where to change rings and how many
+// cogs to move at the back to compensate.
+
+import type { GearRatio } from './gear-logic';
+import {
+  DrivetrainGeometry,
+  DrivetrainLayout,
+  EfficiencySummary,
+  resolveDrivetrainGeometry,
+  summarizeEfficiency,
+} from './drivetrain-efficiency';
+
+// --- Constants ---
+
+export const DEFAULT_DUPLICATE_THRESHOLD_PERCENT = 3;
+
+// Chain angle bands, in degrees from straight.
+export const CROSS_CHAIN_CAUTION_DEG = 2;
+export const CROSS_CHAIN_EXTREME_DEG = 2.75;
+
+// --- Interfaces ---
+
+export type CrossChainLevel = 'ok' | 'caution' | 'extreme';
+
+// Use the same layout the gears were calculated with
+export interface GearAnalysisOptions extends DrivetrainLayout {
+  duplicateThresholdPercent?: number;
+}
+
+export type AnalyzedGear = GearRatio & {
+  crossChain: CrossChainLevel;
+  duplicateOf?: string; // Key of the near-identical gear kept in its place
+};
+
+export interface DuplicateGearPair {
+  kept: AnalyzedGear;
+  dropped: AnalyzedGear;
+  differencePercent: number;
+}
+
+export interface GearStep {
+  from: AnalyzedGear;
+  to: AnalyzedGear;
+  stepPercent: number;
+}
+
+export interface ShiftStep {
+  gear: AnalyzedGear;
+  frontShift: boolean;        // Reached by changing chainring
+  rearCompensation: number;   // Cogs moved at the back with the front shift (positive = to larger cogs)
+}
+
+export interface GearAnalysis {
+  geometry: DrivetrainGeometry;
+  gears: AnalyzedGear[];          // All combinations, easiest first
+  duplicates: DuplicateGearPair[];
+  usableGears: AnalyzedGear[];    // Not extreme, duplicates removed, easiest first
+  steps: GearStep[];              // Between adjacent usable gears
+  shiftSequence: ShiftStep[];     // Empty for single-ring drivetrains
+  efficiency: EfficiencySummary | null;  // Over the usable gears
+}
+
+// --- Helper Functions ---
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+export const gearKey = (gear: Pick<GearRatio, 'chainring' | 'cog'>) => `${gear.chainring}-${gear.cog}`;
+
+export function classifyCrossChain(chainAngleDeg: number): CrossChainLevel {
+  if (chainAngleDeg > CROSS_CHAIN_EXTREME_DEG) return 'extreme';
+  if (chainAngleDeg > CROSS_CHAIN_CAUTION_DEG) return 'caution';
+  return 'ok';
+}
+
+const ratioDifferencePercent = (a: GearRatio, b: GearRatio) =>
+  Math.abs(b.chainring / b.cog - a.chainring / a.cog) / Math.min(a.chainring / a.cog, b.chainring / b.cog) * 100;
+
+// --- Analysis ---
+
+// Near-identical ratios on different chainrings. Of each pair the gear with the
+// straighter chain is kept.
+function findDuplicates(gears: AnalyzedGear[], thresholdPercent: number): DuplicateGearPair[] {
+  const pairs: DuplicateGearPair[] = [];
+  const dropped = new Set<string>();
+  const candidates = gears.filter(gear => gear.crossChain !== 'extreme');
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const a = candidates[i];
+      const b = candidates[j];
+      if (a.chainring === b.chainring) continue;
+      const differencePercent = ratioDifferencePercent(a, b);
+      if (differencePercent > thresholdPercent) continue;
+      if (dropped.has(gearKey(a)) || dropped.has(gearKey(b))) continue;
+
+      const [kept, loser] = a.chainAngleDeg <= b.chainAngleDeg ? [a, b] : [b, a];
+      dropped.add(gearKey(loser));
+      loser.duplicateOf = gearKey(kept);
+      pairs.push({ kept, dropped: loser, differencePercent: round(differencePercent, 1) });
+    }
+  }
+
+  return pairs;
+}
+
+// Where to change chainrings, moving from easiest to hardest gear through every gear
+// that is not cross-chained (near-duplicates stay in: skipping them would mean double
+// rear shifts). Each ring is ridden up to the middle of its overlap with the next
+// ring; the front shift then lands on the next ring's first gear that is harder than
+// where the rider was, which sets the rear shift made at the same time.
+function buildShiftSequence(gears: AnalyzedGear[], cogs: number[]): ShiftStep[] {
+  const rings = [...new Set(gears.map(gear => gear.chainring))].sort((a, b) => a - b);
+  if (rings.length < 2) return [];
+
+  const cogIndex = (cog: number) => [...cogs].sort((a, b) => a - b).indexOf(cog);
+  const sequence: ShiftStep[] = [];
+  let floorRatio = 0;
+
+  rings.forEach((ring, ringIndex) => {
+    const ringGears = gears.filter(gear => gear.chainring === ring && gear.ratio > floorRatio);
+    if (ringGears.length === 0) return;
+
+    const nextRingGears = ringIndex < rings.length - 1 ? gears.filter(gear => gear.chainring === rings[ringIndex + 1]) : [];
+    let lastOnRing = ringGears[ringGears.length - 1];
+    if (nextRingGears.length > 0) {
+      const overlapLow = nextRingGears[0].ratio;
+      const overlapHigh = lastOnRing.ratio;
+      const shiftPoint = overlapHigh > overlapLow ? Math.sqrt(overlapLow * overlapHigh) : overlapHigh;
+      lastOnRing = [...ringGears].reverse().find(gear => gear.ratio <= shiftPoint) ?? ringGears[0];
+    }
+
+    ringGears.filter(gear => gear.ratio <= lastOnRing.ratio).forEach((gear, index) => {
+      const previous = sequence[sequence.length - 1];
+      const frontShift = index === 0 && previous !== undefined;
+      sequence.push({
+        gear,
+        frontShift,
+        rearCompensation: frontShift ? cogIndex(gear.cog) - cogIndex(previous.gear.cog) : 0,
+      });
+    });
+    floorRatio = lastOnRing.ratio;
+  });
+
+  return sequence;
+}
+
+export function analyzeGears(gears: GearRatio[], options: GearAnalysisOptions = {}): GearAnalysis | null {
+  if (gears.length === 0) return null;
+
+  const chainrings = [...new Set(gears.map(gear => gear.chainring))];
+  const cogs = [...new Set(gears.map(gear => gear.cog))];
+  const geometry = resolveDrivetrainGeometry(chainrings, cogs, options);
+
+  const analyzed: AnalyzedGear[] = [...gears]
+    .sort((a, b) => a.chainring / a.cog - b.chainring / b.cog)
+    .map(gear => ({ ...gear, crossChain: classifyCrossChain(gear.chainAngleDeg) }));
+
+  const duplicates = findDuplicates(analyzed, options.duplicateThresholdPercent ?? DEFAULT_DUPLICATE_THRESHOLD_PERCENT);
+  const usableGears = analyzed.filter(gear => gear.crossChain !== 'extreme' && !gear.duplicateOf);
+
+  const steps: GearStep[] = usableGears.slice(1).map((to, index) => {
+    const from = usableGears[index];
+    return { from, to, stepPercent: round(((to.chainring / to.cog) / (from.chainring / from.cog) - 1) * 100, 1) };
+  });
+
+  return {
+    geometry,
+    gears: analyzed,
+    duplicates,
+    usableGears,
+    steps,
+    shiftSequence: buildShiftSequence(analyzed.filter(gear => gear.crossChain !== 'extreme'), cogs),
+    efficiency: summarizeEfficiency(usableGears),
+  };
+}
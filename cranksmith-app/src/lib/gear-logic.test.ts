@@ -0,0 +1,95 @@
+// FILE: src/lib/gear-logic.test.ts
+
+import { describe, expect, it } from 'vitest';
+import {
+  calculateGearRatios,
+  calculateSkidPatches,
+  compareSetups,
+  describeGear,
+  parseCadenceBand,
+} from './gear-logic';
+
+// A 700x25c road wheel
+const ROAD_WHEEL = { wheelCircumferenceMm: 2096, crankLengthMm: 170 };
+
+describe('describeGear', () => {
+  const gear = describeGear(48, 17, ROAD_WHEEL);
+
+  it('gives ratio, gear inches and development', () => {
+    expect(gear.ratio).toBe(2.82);
+    expect(gear.gearInches).toBe(74.2);
+    expect(gear.developmentM).toBe(5.92);
+  });
+
+  it('accounts for crank length in the gain ratio', () => {
+    expect(gear.gainRatio).toBe(5.54);
+    expect(describeGear(48, 17, { ...ROAD_WHEEL, crankLengthMm: 175 }).gainRatio).toBe(5.38);
+  });
+
+  it('gives speed at the requested cadence and across the cadence range', () => {
+    expect(gear.speedAt90rpm).toBe(32);
+    expect(gear.speedAt90rpmMph).toBe(19.9);
+    expect(describeGear(48, 17, { ...ROAD_WHEEL, cadence: 60 }).speedAt90rpm).toBe(21.3);
+    expect(gear.speedByCadence[0]).toEqual({ cadence: 60, speedKmh: 21.3, speedMph: 13.2 });
+  });
+});
+
+describe('calculateSkidPatches', () => {
+  it('uses the cog side of the reduced ratio', () => {
+    expect(calculateSkidPatches(48, 17)).toEqual({ single: 17, ambidextrous: 17 });
+    expect(calculateSkidPatches(48, 18)).toEqual({ single: 3, ambidextrous: 3 });
+  });
+
+  it('doubles for an ambidextrous skidder when the chainring side is odd', () => {
+    expect(calculateSkidPatches(49, 17)).toEqual({ single: 17, ambidextrous: 34 });
+    expect(calculateSkidPatches(46, 16)).toEqual({ single: 8, ambidextrous: 16 });
+    expect(calculateSkidPatches(48, 16)).toEqual({ single: 1, ambidextrous: 2 });
+  });
+});
+
+describe('calculateGearRatios', () => {
+  it('returns every combination, easiest first', () => {
+    const gears = calculateGearRatios([34, 50], [28, 11], ROAD_WHEEL);
+    expect(gears.map(g => [g.chainring, g.cog])).toEqual([[34, 28], [50, 28], [34, 11], [50, 11]]);
+  });
+
+  it('returns nothing without chainrings or cogs', () => {
+    expect(calculateGearRatios([], [11, 28])).toEqual([]);
+    expect(calculateGearRatios([50], [])).toEqual([]);
+  });
+});
+
+describe('parseCadenceBand', () => {
+  it('accepts the ends in either order', () => {
+    expect(parseCadenceBand('80', '95')).toEqual({ minRpm: 80, maxRpm: 95 });
+    expect(parseCadenceBand('95', '80')).toEqual({ minRpm: 80, maxRpm: 95 });
+  });
+
+  it('rejects empty, non-numeric and out-of-range ends', () => {
+    expect(parseCadenceBand('', '95')).toBeNull();
+    expect(parseCadenceBand('80', ' ')).toBeNull();
+    expect(parseCadenceBand('abc', '95')).toBeNull();
+    expect(parseCadenceBand('0', '95')).toBeNull();
+    expect(parseCadenceBand('80', '151')).toBeNull();
+  });
+});
+
+describe('compareSetups', () => {
+  it('compares easiest gear, hardest gear and range', () => {
+    const current = calculateGearRatios([50, 34], [11, 28], ROAD_WHEEL);
+    const proposed = calculateGearRatios([46, 30], [11, 32], ROAD_WHEEL);
+    expect(compareSetups(current, proposed)).toEqual({
+      easiestGearImprovement: 22,
+      hardestGearImprovement: -8,
+      gearRange: { current: 3.76, proposed: 4.45, improvement: 18 },
+    });
+  });
+
+  it('reports no change when either setup is empty', () => {
+    expect(compareSetups([], calculateGearRatios([50], [11]))).toEqual({
+      easiestGearImprovement: 0,
+      hardestGearImprovement: 0,
+      gearRange: { current: 0, proposed: 0, improvement: 0 },
+    });
+  });
+});
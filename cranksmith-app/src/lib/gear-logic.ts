@@ -0,0 +1,246 @@
+// FILE: src/lib/gear-logic.ts
+
+// Gear math shared by the gear calculators. Every chainring x cog combination is
+// described in the measures riders actually compare gears with: plain ratio, gear
+// inches (ratio x wheel diameter), meters of development (distance per crank turn),
+// Sheldon Brown's gain ratio (which also accounts for crank length) and, for fixed
+// gears, the number of skid patches the tire wears. Speeds are given at the rider's
+// cadence and across a cadence range, and can be searched by target speed. Each gear
+// also carries its chain angle and estimated friction losses.
+
+import { DEFAULT_WHEEL_CIRCUMFERENCE_MM } from './wheel-sizes';
+import { mmToInches } from './units';
+import {
+  DrivetrainLayout,
+  DrivetrainLosses,
+  calculateChainAngleDeg,
+  estimateDrivetrainLosses,
+  resolveDrivetrainGeometry,
+} from './drivetrain-efficiency';
+
+// --- Constants ---
+
+// Used when the crankset has no arm length on record.
+export const DEFAULT_CRANK_LENGTH_MM = 172.5;
+
+export const DEFAULT_CADENCE_RPM = 90;
+
+// Columns of the speed-at-cadence matrix.
+export const CADENCE_MATRIX_RANGE: CadenceRange = { minRpm: 60, maxRpm: 120, stepRpm: 5 };
+
+// Used until the rider saves their own band.
+export const DEFAULT_CADENCE_BAND: CadenceBand = { minRpm: 80, maxRpm: 95 };
+
+// Cadences a saved band may use (matches the profiles_cadence_band_valid check).
+export const CADENCE_BAND_LIMITS: CadenceBand = { minRpm: 30, maxRpm: 150 };
+
+export const KMH_TO_MPH = 0.621371;
+
+// --- Interfaces ---
+
+export interface CadenceBand {
+  minRpm: number;
+  maxRpm: number;
+}
+
+export interface CadenceRange extends CadenceBand {
+  stepRpm: number;
+}
+
+export interface CadenceSpeed {
+  cadence: number;
+  speedKmh: number;
+  speedMph: number;
+}
+
+// Layout fields feed chain angle and friction losses
+export interface GearCalculationOptions extends DrivetrainLayout {
+  wheelCircumferenceMm?: number;
+  crankLengthMm?: number;
+  cadence?: number;
+  cadenceRange?: CadenceRange;  // Defaults to CADENCE_MATRIX_RANGE
+}
+
+export interface GearRatio {
+  gear: number;
+  chainring: number;
+  cog: number;
+  ratio: number;
+  gearInches: number;
+  developmentM: number;  // Distance travelled per crank revolution
+  gainRatio: number;     // Wheel radius / crank length x ratio
+  skidPatches: number;   // Skidding with the same foot forward every time
+  skidPatchesAmbidextrous: number;  // Skidding with either foot forward
+  speedAt90rpm: number;     // km/h at the requested cadence
+  speedAt90rpmMph: number;
+  speedByCadence: CadenceSpeed[];  // One entry per cadence in the range
+  chainAngleDeg: number;
+  losses: DrivetrainLosses;
+  efficiencyPercent: number;
+}
+
+// A gear that reaches a target speed inside the rider's cadence band
+export interface GearSpeedMatch {
+  gear: GearRatio;
+  cadence: number;  // Cadence needed for the target speed
+}
+
+export interface ComparisonResult {
+  easiestGearImprovement: number;  // % easier climbing gear (positive = easier)
+  hardestGearImprovement: number;  // % taller top gear (positive = faster)
+  gearRange: { current: number; proposed: number; improvement: number; };
+}
+
+// --- Helper Functions ---
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// km/h for a distance per crank revolution at a cadence
+const speedKmhAt = (developmentMm: number, cadence: number) => (cadence * developmentMm * 60) / 1_000_000;
+
+function cadenceSteps(range: CadenceRange): number[] {
+  const cadences: number[] = [];
+  for (let cadence = range.minRpm; cadence <= range.maxRpm; cadence += range.stepRpm) {
+    cadences.push(cadence);
+  }
+  return cadences;
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
+// Sheldon Brown's skid patch count: reduce chainring/cog to lowest terms and the cog
+// side is the number of distinct spots the rear tire stops on. When the chainring side
+// is odd, a rider who skids with either foot forward doubles that number.
+export function calculateSkidPatches(chainring: number, cog: number): { single: number; ambidextrous: number } {
+  const divisor = greatestCommonDivisor(chainring, cog);
+  const single = cog / divisor;
+  const ambidextrous = (chainring / divisor) % 2 === 1 ? single * 2 : single;
+  return { single, ambidextrous };
+}
+
+// Chain angle comes from the whole drivetrain (see calculateGearRatios); a single gear
+// on its own is treated as straight.
+export function describeGear(chainring: number, cog: number, options: GearCalculationOptions = {}, chainAngleDeg: number = 0): Omit<GearRatio, 'gear'> {
+  const circumferenceMm = options.wheelCircumferenceMm || DEFAULT_WHEEL_CIRCUMFERENCE_MM;
+  const crankLengthMm = options.crankLengthMm || DEFAULT_CRANK_LENGTH_MM;
+  const cadence = options.cadence ?? DEFAULT_CADENCE_RPM;
+
+  const ratio = chainring / cog;
+  const wheelDiameterMm = circumferenceMm / Math.PI;
+  const developmentMm = ratio * circumferenceMm;
+  const speedKmh = speedKmhAt(developmentMm, cadence);
+  const skid = calculateSkidPatches(chainring, cog);
+  const losses = estimateDrivetrainLosses(chainring, cog, chainAngleDeg);
+
+  return {
+    chainring,
+    cog,
+    ratio: round(ratio, 2),
+    gearInches: round(ratio * mmToInches(wheelDiameterMm), 1),
+    developmentM: round(developmentMm / 1000, 2),
+    gainRatio: round((wheelDiameterMm / 2 / crankLengthMm) * ratio, 2),
+    skidPatches: skid.single,
+    skidPatchesAmbidextrous: skid.ambidextrous,
+    speedAt90rpm: round(speedKmh, 1),
+    speedAt90rpmMph: round(speedKmh * KMH_TO_MPH, 1),
+    speedByCadence: cadenceSteps(options.cadenceRange || CADENCE_MATRIX_RANGE).map(rpm => {
+      const kmh = speedKmhAt(developmentMm, rpm);
+      return { cadence: rpm, speedKmh: round(kmh, 1), speedMph: round(kmh * KMH_TO_MPH, 1) };
+    }),
+    chainAngleDeg,
+    losses,
+    efficiencyPercent: round(100 - losses.totalPercent, 1),
+  };
+}
+
+// --- Gear Calculation Logic ---
+
+// Every chainring x cog combination, easiest first. Gear numbers follow the
+// big-ring/small-cog order the combinations were generated in.
+export function calculateGearRatios(chainrings: number[], cogs: number[], options: GearCalculationOptions = {}): GearRatio[] {
+  if (chainrings.length === 0 || cogs.length === 0) return [];
+
+  const sortedChainrings = [...chainrings].sort((a, b) => b - a);
+  const sortedCogs = [...cogs].sort((a, b) => a - b);
+  const geometry = resolveDrivetrainGeometry(chainrings, cogs, options);
+  const gears: GearRatio[] = [];
+  let gearNumber = 1;
+
+  sortedChainrings.forEach(chainring => {
+    sortedCogs.forEach(cog => {
+      const chainAngleDeg = calculateChainAngleDeg(chainring, cog, chainrings, cogs, geometry);
+      gears.push({ gear: gearNumber++, ...describeGear(chainring, cog, options, chainAngleDeg) });
+    });
+  });
+
+  return gears.sort((a, b) => a.ratio - b.ratio);
+}
+
+// A band from the rider's text inputs, ends in either order. Null when either end is
+// empty or outside CADENCE_BAND_LIMITS, so a half-typed value is never saved.
+export function parseCadenceBand(minText: string, maxText: string): CadenceBand | null {
+  const ends = [minText, maxText].map(text => Number(text.trim()));
+  const valid = [minText, maxText].every(text => text.trim() !== '')
+    && ends.every(rpm => Number.isFinite(rpm) && rpm >= CADENCE_BAND_LIMITS.minRpm && rpm <= CADENCE_BAND_LIMITS.maxRpm);
+  if (!valid) return null;
+  return { minRpm: Math.round(Math.min(...ends)), maxRpm: Math.round(Math.max(...ends)) };
+}
+
+export function isInCadenceBand(cadence: number, band: CadenceBand): boolean {
+  return cadence >= band.minRpm && cadence <= band.maxRpm;
+}
+
+// Cadence needed to ride at a speed in a gear
+export function cadenceForSpeed(gear: GearRatio, speedKmh: number): number {
+  return round((speedKmh * 1000) / (gear.developmentM * 60), 1);
+}
+
+// "Which gears put me at 30 km/h between 85 and 95 rpm": the matching gears, the one
+// closest to the middle of the band first.
+export function findGearsForSpeed(gears: GearRatio[], speedKmh: number, band: CadenceBand): GearSpeedMatch[] {
+  if (speedKmh <= 0) return [];
+  const middle = (band.minRpm + band.maxRpm) / 2;
+  return gears
+    .map(gear => ({ gear, cadence: cadenceForSpeed(gear, speedKmh) }))
+    .filter(match => isInCadenceBand(match.cadence, band))
+    .sort((a, b) => Math.abs(a.cadence - middle) - Math.abs(b.cadence - middle));
+}
+
+export function compareSetups(currentGears: GearRatio[], proposedGears: GearRatio[]): ComparisonResult {
+  if (currentGears.length === 0 || proposedGears.length === 0) {
+    return {
+      easiestGearImprovement: 0,
+      hardestGearImprovement: 0,
+      gearRange: { current: 0, proposed: 0, improvement: 0 }
+    };
+  }
+
+  // Find easiest gears (lowest ratios for climbing)
+  const currentEasiest = Math.min(...currentGears.map(g => g.ratio));
+  const proposedEasiest = Math.min(...proposedGears.map(g => g.ratio));
+
+  // Find hardest gears (highest ratios for top speed)
+  const currentHardest = Math.max(...currentGears.map(g => g.ratio));
+  const proposedHardest = Math.max(...proposedGears.map(g => g.ratio));
+
+  // Calculate improvements (negative ratio change = easier climbing)
+  const easiestGearImprovement = Math.round(((proposedEasiest - currentEasiest) / currentEasiest) * -100);
+  const hardestGearImprovement = Math.round(((proposedHardest - currentHardest) / currentHardest) * 100);
+
+  // Calculate gear range improvements
+  const currentRange = currentHardest / currentEasiest;
+  const proposedRange = proposedHardest / proposedEasiest;
+  const rangeImprovement = Math.round(((proposedRange - currentRange) / currentRange) * 100);
+
+  return {
+    easiestGearImprovement,
+    hardestGearImprovement,
+    gearRange: {
+      current: round(currentRange, 2),
+      proposed: round(proposedRange, 2),
+      improvement: rangeImprovement
+    }
+  };
+}
@@ -0,0 +1,37 @@
+// src/lib/interpolation.ts
+// Linear interpolation over numeric lookup tables keyed by a measurement (travel,
+// stanchion diameter...). Values between two keys get a blended factor instead of
+// silently falling back to a default; values outside the table are clamped to the
+// nearest key and reported so callers can lower their accuracy.
+
+// --- Interfaces ---
+
+export type NumericTable = Record<number, number>
+
+export interface InterpolatedValue {
+  value: number
+  inRange: boolean
+  min: number // Smallest key in the table
+  max: number // Largest key in the table
+}
+
+// --- Interpolation ---
+
+export function interpolate(table: NumericTable, x: number): InterpolatedValue {
+  const keys = Object.keys(table).map(Number).sort((a, b) => a - b)
+  const min = keys[0]
+  const max = keys[keys.length - 1]
+
+  if (!Number.isFinite(x) || x < min || x > max) {
+    const nearest = Number.isFinite(x) && x > max ? max : min
+    return { value: table[nearest], inRange: false, min, max }
+  }
+
+  const upperIndex = keys.findIndex(key => key >= x)
+  const upper = keys[upperIndex]
+  if (upper === x) return { value: table[upper], inRange: true, min, max }
+
+  const lower = keys[upperIndex - 1]
+  const t = (x - lower) / (upper - lower)
+  return { value: table[lower] + t * (table[upper] - table[lower]), inRange: true, min, max }
+}
@@ -0,0 +1,88 @@
+// FILE: src/lib/load-profile.ts
+
+// Per-wheel load breakdown. Rider and bike weight are split using the resolved weight
+// distribution; bags and cargo are added to whichever wheel carries them. Bikepacking
+// loads are far from evenly split (fork bags sit over the front axle, a rear rack sits
+// over the rear one), so assigning them correctly matters more than their total.
+
+import { WeightDistribution } from './weight-distribution';
+
+// --- Interfaces ---
+
+export type CargoLocation = 'frame-bag' | 'saddle-bag' | 'handlebar-bag' | 'fork-bags' | 'rear-rack' | 'hydration-pack';
+
+// 'split' shares the load using the rider/bike weight distribution.
+export type LoadAssignment = 'front' | 'rear' | 'split';
+
+export interface CargoItem {
+  location: CargoLocation;
+  weightLbs: number;
+  assignment?: LoadAssignment; // Defaults to the location's usual assignment
+}
+
+export interface LoadBreakdownItem {
+  label: string;
+  weightLbs: number;
+  frontLbs: number;
+  rearLbs: number;
+}
+
+export interface WheelLoads {
+  frontLbs: number;
+  rearLbs: number;
+  totalLbs: number;
+  breakdown: LoadBreakdownItem[];
+}
+
+// --- Cargo Locations ---
+
+export const CARGO_LOCATIONS: Record<CargoLocation, { label: string; defaultAssignment: LoadAssignment }> = {
+  'frame-bag': { label: 'Frame Bag', defaultAssignment: 'split' },
+  'saddle-bag': { label: 'Saddle Bag', defaultAssignment: 'rear' },
+  'handlebar-bag': { label: 'Handlebar Bag', defaultAssignment: 'front' },
+  'fork-bags': { label: 'Fork Bags', defaultAssignment: 'front' },
+  'rear-rack': { label: 'Rear Rack / Panniers', defaultAssignment: 'rear' },
+  'hydration-pack': { label: 'Hydration Pack', defaultAssignment: 'split' },
+};
+
+// --- Helper Functions ---
+
+function splitLoad(label: string, weightLbs: number, assignment: LoadAssignment, distribution: WeightDistribution): LoadBreakdownItem {
+  const frontShare = assignment === 'front' ? 1 : assignment === 'rear' ? 0 : distribution.front;
+  return {
+    label,
+    weightLbs,
+    frontLbs: weightLbs * frontShare,
+    rearLbs: weightLbs * (1 - frontShare),
+  };
+}
+
+// --- Wheel Loads ---
+
+export function calculateWheelLoads(
+  riderWeightLbs: number,
+  bikeWeightLbs: number,
+  distribution: WeightDistribution,
+  cargo: CargoItem[] = [],
+): WheelLoads {
+  const breakdown: LoadBreakdownItem[] = [
+    splitLoad('Rider', riderWeightLbs, 'split', distribution),
+    splitLoad('Bike', bikeWeightLbs, 'split', distribution),
+  ];
+
+  for (const item of cargo) {
+    if (!(item.weightLbs > 0)) continue;
+    const location = CARGO_LOCATIONS[item.location];
+    breakdown.push(splitLoad(location.label, item.weightLbs, item.assignment ?? location.defaultAssignment, distribution));
+  }
+
+  const frontLbs = breakdown.reduce((sum, item) => sum + item.frontLbs, 0);
+  const rearLbs = breakdown.reduce((sum, item) => sum + item.rearLbs, 0);
+
+  return {
+    frontLbs,
+    rearLbs,
+    totalLbs: frontLbs + rearLbs,
+    breakdown,
+  };
+}
@@ -0,0 +1,69 @@
+// src/lib/pressure-chart.ts
+// Manufacturer pressure charts (the sticker on the fork leg or the table in the
+// manual). Components store them as text in `components.manufacturer_pressure_chart`,
+// either as JSON rows or as the plain "150 lbs: 70 psi" lines people copy from a
+// manual. A chart beats any model, so when one exists we read it first.
+
+import { interpolate, type InterpolatedValue } from './interpolation'
+import { kgToLbs } from './units'
+import type { PressureChart } from './suspension-logic'
+
+// --- Interfaces ---
+
+export interface PressureChartReading {
+  pressurePsi: number // At the chart's sag
+  sagPercent: number
+  weight: InterpolatedValue // Rider weight lookup, for range checks
+}
+
+// --- Parsing ---
+
+const TEXT_ROW = /(\d+(?:\.\d+)?)\s*(lbs?|kg)?\s*(?::|=|->|–|-)\s*(\d+(?:\.\d+)?)\s*psi(?:\D+(\d+(?:\.\d+)?)\s*%)?/gi
+
+function isChartRow(row: unknown): row is PressureChart {
+  const candidate = row as PressureChart
+  return typeof candidate?.rider_weight_lbs === 'number' && typeof candidate?.recommended_psi === 'number'
+}
+
+// Returns null when nothing usable is found. Rows without a sag use `defaultSagPercent`.
+export function parsePressureChart(raw: string | PressureChart[] | null | undefined, defaultSagPercent: number): PressureChart[] | null {
+  if (!raw) return null
+
+  let rows: PressureChart[] = []
+  if (Array.isArray(raw)) {
+    rows = raw.filter(isChartRow)
+  } else {
+    try {
+      const parsed: unknown = JSON.parse(raw)
+      if (Array.isArray(parsed)) rows = parsed.filter(isChartRow)
+    } catch {
+      for (const match of raw.matchAll(TEXT_ROW)) {
+        const [, weight, weightUnit, psi, sag] = match
+        rows.push({
+          rider_weight_lbs: weightUnit?.toLowerCase() === 'kg' ? kgToLbs(parseFloat(weight)) : parseFloat(weight),
+          recommended_psi: parseFloat(psi),
+          sag_percent: sag ? parseFloat(sag) : defaultSagPercent
+        })
+      }
+    }
+  }
+
+  rows = rows.map(row => ({ ...row, sag_percent: row.sag_percent || defaultSagPercent }))
+  return rows.length >= 2 ? rows : null
+}
+
+// --- Reading ---
+
+// Interpolates by rider weight, using the rows whose sag is closest to the target.
+export function readPressureChart(chart: PressureChart[], riderWeightLbs: number, targetSagPercent: number): PressureChartReading {
+  const sagPercent = chart.reduce((closest, row) =>
+    Math.abs(row.sag_percent - targetSagPercent) < Math.abs(closest - targetSagPercent) ? row.sag_percent : closest,
+  chart[0].sag_percent)
+
+  const table = Object.fromEntries(chart
+    .filter(row => row.sag_percent === sagPercent)
+    .map(row => [row.rider_weight_lbs, row.recommended_psi]))
+  const weight = interpolate(table, riderWeightLbs)
+
+  return { pressurePsi: weight.value, sagPercent, weight }
+}
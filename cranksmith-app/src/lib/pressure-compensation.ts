@@ -0,0 +1,94 @@
+// FILE: src/lib/pressure-compensation.ts
+
+// Temperature and altitude compensation. Tire gauges read pressure relative to the
+// surrounding air, but the gas inside the tire only cares about absolute pressure and
+// temperature. A tire pumped up in a warm garage loses pressure in the cold, and one
+// pumped up in the valley reads higher at the top of a climb. We treat the tire volume
+// as constant (Gay-Lussac's law), which is close enough for a tire at working pressure.
+
+import { DEFAULT_UNIT_PREFERENCES, UnitPreferences, formatAltitude, formatPressure, formatTemperature } from './units';
+
+// --- Constants ---
+
+const SEA_LEVEL_ATMOSPHERE_PSI = 14.696;
+const CELSIUS_TO_KELVIN = 273.15;
+
+// Changes smaller than this aren't worth reporting; a floor pump gauge can't resolve them.
+const MIN_REPORTED_CORRECTION_PSI = 0.5;
+
+// --- Interfaces ---
+
+// Canonical units (°C, metres); pages convert from the rider's units, see ./units.
+export interface RideConditions {
+  inflationTempC?: number;     // Where you pump the tires (garage, car park)
+  rideTempC?: number;          // Expected air/road temperature on the ride
+  inflationAltitudeM?: number; // Altitude where you pump the tires; defaults to sea level
+  altitudeChangeM?: number;    // Ride altitude minus inflation altitude (e.g. +1500 for an alpine climb)
+}
+
+export interface PressureCompensation {
+  targetPsi: number;    // Gauge pressure wanted on the ride
+  inflationPsi: number; // Gauge pressure to set when inflating
+  correctionPsi: number; // inflationPsi - targetPsi
+}
+
+// --- Helper Functions ---
+
+// International Standard Atmosphere barometric formula (troposphere).
+export function atmosphericPressurePsi(altitudeM: number): number {
+  return SEA_LEVEL_ATMOSPHERE_PSI * Math.pow(1 - 2.25577e-5 * altitudeM, 5.25588);
+}
+
+export function hasConditionChange(conditions?: RideConditions): boolean {
+  if (!conditions) return false;
+  const temperatureChanged = conditions.inflationTempC !== undefined
+    && conditions.rideTempC !== undefined
+    && conditions.inflationTempC !== conditions.rideTempC;
+  return temperatureChanged || Boolean(conditions.altitudeChangeM);
+}
+
+// --- Compensation ---
+
+// Gauge pressure to set at inflation so the tire reads `targetPsi` under ride conditions.
+// Missing temperatures are treated as unchanged.
+export function compensatePressure(targetPsi: number, conditions: RideConditions = {}): PressureCompensation {
+  const inflationAltitudeM = conditions.inflationAltitudeM ?? 0;
+  const rideAltitudeM = inflationAltitudeM + (conditions.altitudeChangeM ?? 0);
+  const inflationTempC = conditions.inflationTempC ?? conditions.rideTempC ?? 20;
+  const rideTempC = conditions.rideTempC ?? inflationTempC;
+
+  const rideAbsolutePsi = targetPsi + atmosphericPressurePsi(rideAltitudeM);
+  const inflationAbsolutePsi = rideAbsolutePsi * (inflationTempC + CELSIUS_TO_KELVIN) / (rideTempC + CELSIUS_TO_KELVIN);
+  const inflationPsi = inflationAbsolutePsi - atmosphericPressurePsi(inflationAltitudeM);
+
+  return {
+    targetPsi,
+    inflationPsi,
+    correctionPsi: inflationPsi - targetPsi,
+  };
+}
+
+// Explains a pair of front/rear corrections in plain language, or returns null when
+// the correction is too small to matter.
+export function describeCompensation(
+  front: PressureCompensation,
+  rear: PressureCompensation,
+  conditions: RideConditions,
+  units: UnitPreferences = DEFAULT_UNIT_PREFERENCES,
+): string | null {
+  if (Math.abs(front.correctionPsi) < MIN_REPORTED_CORRECTION_PSI && Math.abs(rear.correctionPsi) < MIN_REPORTED_CORRECTION_PSI) {
+    return null;
+  }
+
+  const reasons: string[] = [];
+  if (conditions.inflationTempC !== undefined && conditions.rideTempC !== undefined && conditions.inflationTempC !== conditions.rideTempC) {
+    reasons.push(`inflating at ${formatTemperature(conditions.inflationTempC, units.temperature)} and riding at ${formatTemperature(conditions.rideTempC, units.temperature)}`);
+  }
+  if (conditions.altitudeChangeM) {
+    reasons.push(`${conditions.altitudeChangeM > 0 ? 'climbing' : 'descending'} ${formatAltitude(Math.abs(conditions.altitudeChangeM), units.altitude)} from where you inflate`);
+  }
+
+  const pressure = (psi: number) => formatPressure(psi, units.pressure);
+  const direction = front.correctionPsi > 0 ? 'higher' : 'lower';
+  return `Conditions correction for ${reasons.join(' and ')}: inflate to ${pressure(front.inflationPsi)} front / ${pressure(rear.inflationPsi)} rear (${pressure(Math.abs(front.correctionPsi))} ${direction}) so the tires reach ${pressure(front.targetPsi)} / ${pressure(rear.targetPsi)} on the ride.`;
+}
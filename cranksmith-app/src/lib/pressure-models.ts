@@ -0,0 +1,167 @@
+// FILE: src/lib/pressure-models.ts
+
+// Registry of named, versioned tire pressure models. Every model shares the same
+// interface so `calculateAdvancedPressure` can swap them freely, and every result
+// records the model id + version that produced it. Bump a model's `version` whenever
+// its formula or factor tables change so saved setups can be recomputed and compared.
+
+import { TireType, getTireSetup } from './tire-setups';
+import { mmToInches } from './units';
+
+// --- Shared factor tables ---
+
+// Casing efficiency factor. Supple casings deform more easily and require less pressure.
+// These are multipliers. 1.0 is the baseline.
+const CASING_FACTOR = {
+  standard: 1.0,    // e.g., 23-60 TPI, standard vulcanized
+  supple: 0.95,     // e.g., 60-120 TPI, more advanced construction
+  'ultra-supple': 0.90, // e.g., 200+ TPI, cotton/silk, open tubular
+};
+
+// Surface type factor. Rougher surfaces require lower pressure to minimize "impedance" losses.
+const SURFACE_FACTOR = {
+  pavement: 1.0,
+  poor_pavement: 0.95,
+  mixed: 0.92,
+  gravel_hardpack: 0.85,
+  gravel_loose: 0.78,
+};
+
+// Target tire deflection (or "drop") as a percentage. 15% is a common starting point.
+const TARGET_TIRE_DROP = 0.15;
+
+// Height / width ratio of the tires in Berto's drop tests (narrow rims of the era).
+// Tires with a lower profile have less height to deflect into and need more pressure.
+const BERTO_ASPECT_RATIO = 0.87;
+
+// Impedance factor used by the rolling-resistance model. Rougher surfaces push the
+// "breakpoint" pressure (where vibration losses overtake casing losses) much lower
+// than the comfort-oriented SURFACE_FACTOR above.
+const IMPEDANCE_FACTOR = {
+  pavement: 0.97,
+  poor_pavement: 0.88,
+  mixed: 0.83,
+  gravel_hardpack: 0.76,
+  gravel_loose: 0.70,
+};
+
+// --- Types ---
+
+export type TireCasing = keyof typeof CASING_FACTOR;
+export type SurfaceType = keyof typeof SURFACE_FACTOR;
+export type { TireType };
+
+export type PressureModelId = 'load-width' | 'tire-drop' | 'rolling-impedance';
+
+// Everything a model needs to turn a wheel load into a pressure.
+export interface PressureModelContext {
+  loadLbs: number;
+  effectiveTireWidthMm: number;
+  tireHeightMm: number;
+  tireCasing: TireCasing;
+  surfaceType: SurfaceType;
+  tireType: TireType;
+}
+
+export interface PressureModel {
+  id: PressureModelId;
+  version: string;
+  name: string;
+  description: string;
+  // Unadjusted pressure (PSI) for a single wheel.
+  basePsi: (context: PressureModelContext) => number;
+  // Combined multiplier for casing, surface and tire setup (see TIRE_SETUPS).
+  adjustment: (context: PressureModelContext) => number;
+  // Model-specific notes, added once per calculation.
+  notes?: (context: PressureModelContext) => string[];
+}
+
+// Identifies which model produced a result, so it can be stored alongside a saved setup.
+export interface PressureModelStamp {
+  id: PressureModelId;
+  version: string;
+  name: string;
+}
+
+export const TIRE_CASINGS = Object.keys(CASING_FACTOR) as TireCasing[];
+export const SURFACE_TYPES = Object.keys(SURFACE_FACTOR) as SurfaceType[];
+
+// --- Helper Functions ---
+
+const standardAdjustment = ({ tireCasing, surfaceType, tireType }: PressureModelContext) =>
+  CASING_FACTOR[tireCasing] * SURFACE_FACTOR[surfaceType] * getTireSetup(tireType).pressureFactor;
+
+// --- Models ---
+
+// The original CrankSmith model. It's a well-regarded formula derived from tire
+// stiffness and load calculations.
+// C is a constant (1.56) derived from testing for the 15% drop.
+// Pressure (PSI) = (C * Load_lbs) / TireWidth_in
+const loadWidthModel: PressureModel = {
+  id: 'load-width',
+  version: '1.0.0',
+  name: 'Load / Width',
+  description: 'Pressure proportional to wheel load divided by effective tire width.',
+  basePsi: ({ loadLbs, effectiveTireWidthMm }) => (1.56 * loadLbs) / mmToInches(effectiveTireWidthMm),
+  adjustment: standardAdjustment,
+};
+
+// Frank Berto's 15% tire-drop measurements, as a power-law regression on tire width.
+// Pressure (PSI) = 153.6 * Load_lbs / Width_mm^1.5785 - 7.1685
+// The regression was fit at the 15% drop this model targets. Drop is a fraction of tire
+// height, so the result is scaled by the tire's aspect ratio on this rim.
+const tireDropModel: PressureModel = {
+  id: 'tire-drop',
+  version: '1.1.0',
+  name: '15% Tire Drop',
+  description: 'Targets a 15% vertical tire deflection using Frank Berto\'s drop measurements.',
+  basePsi: ({ loadLbs, effectiveTireWidthMm, tireHeightMm }) => {
+    const bertoPsi = (153.6 * loadLbs) / Math.pow(effectiveTireWidthMm, 1.5785) - 7.1685;
+    const aspectRatio = tireHeightMm > 0 ? tireHeightMm / effectiveTireWidthMm : BERTO_ASPECT_RATIO;
+    return Math.max(0, bertoPsi) * (BERTO_ASPECT_RATIO / aspectRatio);
+  },
+  adjustment: standardAdjustment,
+  notes: () => [
+    `Tire-drop model: pressure targets a ${Math.round(TARGET_TIRE_DROP * 100)}% vertical deflection of the tire under load.`,
+  ],
+};
+
+// Rolling-resistance / impedance model. Starts from the tire-drop pressure and then
+// drops toward the impedance "breakpoint" for the chosen surface, where vibration
+// losses in the rider start to outweigh casing hysteresis losses.
+const rollingImpedanceModel: PressureModel = {
+  id: 'rolling-impedance',
+  version: '1.0.0',
+  name: 'Rolling Resistance / Impedance',
+  description: 'Aims for the breakpoint pressure where rolling resistance is lowest on the chosen surface.',
+  basePsi: (context) => tireDropModel.basePsi(context),
+  adjustment: ({ tireCasing, surfaceType, tireType }) =>
+    CASING_FACTOR[tireCasing] * IMPEDANCE_FACTOR[surfaceType] * getTireSetup(tireType).pressureFactor,
+  notes: ({ surfaceType }) => [
+    surfaceType === 'pavement'
+      ? 'Impedance model: on smooth pavement the breakpoint sits just below the tire-drop pressure.'
+      : 'Impedance model: on rough surfaces going above the breakpoint pressure makes you slower, not faster.',
+  ],
+};
+
+// --- Registry ---
+
+export const DEFAULT_PRESSURE_MODEL_ID: PressureModelId = 'load-width';
+
+export const PRESSURE_MODELS: Record<PressureModelId, PressureModel> = {
+  'load-width': loadWidthModel,
+  'tire-drop': tireDropModel,
+  'rolling-impedance': rollingImpedanceModel,
+};
+
+export function getPressureModel(id: PressureModelId = DEFAULT_PRESSURE_MODEL_ID): PressureModel {
+  return PRESSURE_MODELS[id] ?? PRESSURE_MODELS[DEFAULT_PRESSURE_MODEL_ID];
+}
+
+export function listPressureModels(): PressureModel[] {
+  return Object.values(PRESSURE_MODELS);
+}
+
+export function stampPressureModel(model: PressureModel): PressureModelStamp {
+  return { id: model.id, version: model.version, name: model.name };
+}
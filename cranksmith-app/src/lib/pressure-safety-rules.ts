@@ -0,0 +1,400 @@
+// FILE: src/lib/pressure-safety-rules.ts
+
+// Rim/tire safety rules engine. Each rule looks at a tire/rim combination and may
+// contribute a maximum pressure and/or a structured warning. `calculateAdvancedPressure`
+// clamps to the strictest maximum any rule reports, instead of a single hardcoded cap.
+//
+// NOTE: Catalog values are transcribed from manufacturer documentation and change
+// between model years. Riders should always confirm against the rim decal and tire sidewall.
+
+import { TireType, getTireSetup } from './tire-setups';
+import { DEFAULT_UNIT_PREFERENCES, PressureUnit, formatPressure } from './units';
+
+// --- Constants ---
+
+// ISO 5775-2:2021 / ETRTO limit for hookless (TSS) rims: 5 bar.
+const ISO_HOOKLESS_MAX_PSI = 72.5;
+
+// --- Interfaces ---
+
+export type SafetySeverity = 'info' | 'warning' | 'critical';
+
+export interface SafetyWarning {
+  ruleId: string;
+  severity: SafetySeverity;
+  message: string;
+  source: string;
+  limitPsi?: number;
+}
+
+// Maximum pressure (PSI) by nominal tire width (mm). Limits drop as tires get wider,
+// so a catalog entry lists the sizes its manufacturer publishes.
+export type PressureLimitsByWidth = Record<number, number>;
+
+export interface RimPressureSpec {
+  brand: string;
+  model: string;
+  hookless: boolean;
+  internalWidthMm: number;
+  maxPsi: number; // Absolute rim limit, whatever the tire
+  maxPsiByTireWidthMm?: PressureLimitsByWidth; // Lower limits for wider tires, where published
+  minTireWidthMm?: number;
+  approvedTires?: string[]; // `${brand} ${model}` keys from TIRE_PRESSURE_LIMITS
+  source: string;
+}
+
+// Catalog entry for a tire model, one limit per published width
+export interface TireModelSpec {
+  brand: string;
+  model: string;
+  maxPsiByWidthMm: PressureLimitsByWidth;
+  tubelessReady: boolean;
+  hooklessApproved: boolean;
+  source: string;
+}
+
+// A tire model at the rider's width, see findTireSpec
+export interface TirePressureSpec extends Omit<TireModelSpec, 'maxPsiByWidthMm'> {
+  widthMm: number;  // The rider's width
+  listedWidthMm?: number; // Catalog width the limit was taken from
+  maxPsi?: number;  // Unknown when the rider's tire is wider than every listed size
+}
+
+export interface SafetyRuleContext {
+  isHookless: boolean;
+  tireType: TireType;
+  tireWidthMm: number;
+  rimWidthMm: number;
+  rim?: RimPressureSpec;
+  tire?: TirePressureSpec;
+  rimMaxPsi?: number;  // Rider-entered value from the rim decal
+  tireMaxPsi?: number; // Rider-entered value from the tire sidewall
+  pressureUnit?: PressureUnit; // Unit used in messages; limits are always PSI
+}
+
+interface SafetyRuleOutcome {
+  maxPsi?: number;
+  severity: SafetySeverity;
+  message: string;
+}
+
+export interface PressureSafetyRule {
+  id: string;
+  source: string;
+  evaluate: (context: SafetyRuleContext) => SafetyRuleOutcome | null;
+}
+
+export interface SafetyEvaluation {
+  maxPsi: number | null;       // Strictest limit found, or null when nothing applies
+  limitingRule?: SafetyWarning;
+  warnings: SafetyWarning[];
+  isHookless: boolean;         // Rider input, corrected by the rim catalog if needed
+}
+
+// --- Catalogs ---
+
+export const RIM_PRESSURE_LIMITS: Record<string, RimPressureSpec> = {
+  'Zipp 303 Firecrest': {
+    brand: 'Zipp',
+    model: '303 Firecrest',
+    hookless: true,
+    internalWidthMm: 25,
+    maxPsi: 72.5,
+    maxPsiByTireWidthMm: { 28: 72.5, 30: 66, 32: 60, 35: 54, 40: 45 },
+    minTireWidthMm: 28,
+    approvedTires: ['Continental Grand Prix 5000 S TR', 'Schwalbe Pro One TLE', 'Pirelli P Zero Race TLR', 'Vittoria Corsa Pro TLR'],
+    source: 'Zipp 303 Firecrest user manual',
+  },
+  'Zipp 303 S': {
+    brand: 'Zipp',
+    model: '303 S',
+    hookless: true,
+    internalWidthMm: 23,
+    maxPsi: 72.5,
+    maxPsiByTireWidthMm: { 28: 72.5, 30: 66, 32: 60, 35: 54, 40: 45 },
+    minTireWidthMm: 28,
+    approvedTires: ['Continental Grand Prix 5000 S TR', 'Schwalbe Pro One TLE', 'Pirelli P Zero Race TLR', 'Vittoria Corsa Pro TLR'],
+    source: 'Zipp 303 S user manual',
+  },
+  'ENVE SES 4.5': {
+    brand: 'ENVE',
+    model: 'SES 4.5',
+    hookless: true,
+    internalWidthMm: 25,
+    maxPsi: 72.5,
+    minTireWidthMm: 27,
+    source: 'ENVE road tire pressure chart',
+  },
+  'ENVE G23': {
+    brand: 'ENVE',
+    model: 'G23',
+    hookless: true,
+    internalWidthMm: 25,
+    maxPsi: 60,
+    minTireWidthMm: 35,
+    source: 'ENVE gravel wheel manual',
+  },
+  'Shimano Dura-Ace C50': {
+    brand: 'Shimano',
+    model: 'Dura-Ace C50',
+    hookless: false,
+    internalWidthMm: 21,
+    maxPsi: 116,
+    source: 'Shimano WH-R9270 dealer manual',
+  },
+  'DT Swiss GR 1600 Spline': {
+    brand: 'DT Swiss',
+    model: 'GR 1600 Spline',
+    hookless: false,
+    internalWidthMm: 24,
+    maxPsi: 73,
+    source: 'DT Swiss rim pressure table',
+  },
+  'Stans Flow MK4': {
+    brand: 'Stans',
+    model: 'Flow MK4',
+    hookless: false,
+    internalWidthMm: 29,
+    maxPsi: 40,
+    source: 'Stan\'s NoTubes rim specifications',
+  },
+};
+
+export const TIRE_PRESSURE_LIMITS: Record<string, TireModelSpec> = {
+  'Continental Grand Prix 5000 S TR': {
+    brand: 'Continental',
+    model: 'Grand Prix 5000 S TR',
+    maxPsiByWidthMm: { 25: 80, 28: 73, 30: 73, 32: 73 },
+    tubelessReady: true,
+    hooklessApproved: true,
+    source: 'Continental hookless compatibility list',
+  },
+  'Continental Grand Prix 5000': {
+    brand: 'Continental',
+    model: 'Grand Prix 5000',
+    maxPsiByWidthMm: { 23: 123, 25: 116, 28: 102, 32: 87 },
+    tubelessReady: false,
+    hooklessApproved: false,
+    source: 'Continental tire sidewall',
+  },
+  'Schwalbe Pro One TLE': {
+    brand: 'Schwalbe',
+    model: 'Pro One TLE',
+    maxPsiByWidthMm: { 25: 94, 28: 87, 30: 80, 32: 73 },
+    tubelessReady: true,
+    hooklessApproved: true,
+    source: 'Schwalbe hookless compatibility list',
+  },
+  'Pirelli P Zero Race TLR': {
+    brand: 'Pirelli',
+    model: 'P Zero Race TLR',
+    maxPsiByWidthMm: { 26: 102, 28: 94, 30: 87, 32: 80 },
+    tubelessReady: true,
+    hooklessApproved: true,
+    source: 'Pirelli hookless compatibility list',
+  },
+  'Vittoria Corsa Pro TLR': {
+    brand: 'Vittoria',
+    model: 'Corsa Pro TLR',
+    maxPsiByWidthMm: { 26: 94, 28: 87, 30: 80, 32: 73 },
+    tubelessReady: true,
+    hooklessApproved: true,
+    source: 'Vittoria hookless compatibility list',
+  },
+  'Vittoria Corsa': {
+    brand: 'Vittoria',
+    model: 'Corsa',
+    maxPsiByWidthMm: { 23: 145, 25: 116, 28: 102, 30: 94 },
+    tubelessReady: false,
+    hooklessApproved: false,
+    source: 'Vittoria tire sidewall',
+  },
+  'WTB Riddler TCS': {
+    brand: 'WTB',
+    model: 'Riddler TCS',
+    maxPsiByWidthMm: { 37: 50, 45: 40 },
+    tubelessReady: true,
+    hooklessApproved: true,
+    source: 'WTB tire sidewall',
+  },
+  'Maxxis Minion DHF EXO+': {
+    brand: 'Maxxis',
+    model: 'Minion DHF EXO+',
+    maxPsiByWidthMm: { 58: 50, 63: 50 },
+    tubelessReady: true,
+    hooklessApproved: true,
+    source: 'Maxxis tire sidewall',
+  },
+};
+
+// --- Rules ---
+
+const pressure = (psi: number, unit: PressureUnit = DEFAULT_UNIT_PREFERENCES.pressure) => formatPressure(psi, unit);
+
+export const PRESSURE_SAFETY_RULES: PressureSafetyRule[] = [
+  {
+    id: 'iso-5775-hookless-max',
+    source: 'ISO 5775-2:2021 / ETRTO',
+    evaluate: ({ isHookless }) => isHookless
+      ? { maxPsi: ISO_HOOKLESS_MAX_PSI, severity: 'info', message: 'Hookless rims are limited to 5 bar (72.5 PSI).' }
+      : null,
+  },
+  {
+    id: 'iso-5775-hookless-tubeless-tire',
+    source: 'ISO 5775-2:2021 / ETRTO',
+    evaluate: ({ isHookless, tire }) => isHookless && tire && !tire.tubelessReady
+      ? { severity: 'critical', message: `The ${tire.brand} ${tire.model} is not a tubeless-ready tire and must not be mounted on a hookless rim.` }
+      : null,
+  },
+  {
+    id: 'iso-5775-hookless-tube',
+    source: 'ISO 5775-2:2021 / ETRTO',
+    evaluate: ({ isHookless, tireType }) => isHookless && getTireSetup(tireType).usesInnerTube
+      ? { severity: 'warning', message: 'Running a tube on a hookless rim is only allowed inside a hookless-approved tubeless-ready tire.' }
+      : null,
+  },
+  {
+    id: 'tubular-on-hookless-rim',
+    source: 'ISO 5775-2:2021 / ETRTO',
+    evaluate: ({ isHookless, tireType }) => isHookless && tireType === 'tubular'
+      ? { severity: 'critical', message: 'Tubular tires must be glued or taped to a tubular rim. They cannot be mounted on a hookless clincher rim.' }
+      : null,
+  },
+  {
+    id: 'rim-manufacturer-max',
+    source: 'Rim manufacturer',
+    evaluate: ({ rim, tireWidthMm, pressureUnit }) => {
+      if (!rim) return null;
+      const limit = rimLimitForTireWidth(rim, tireWidthMm);
+      const forWidth = limit.listedWidthMm ? ` with a ${tireWidthMm}mm tire` : '';
+      return { maxPsi: limit.maxPsi, severity: 'info', message: `${rim.brand} ${rim.model} maximum pressure${forWidth} is ${pressure(limit.maxPsi, pressureUnit)} (${rim.source}).` };
+    },
+  },
+  {
+    id: 'rim-min-tire-width',
+    source: 'Rim manufacturer',
+    evaluate: ({ rim, tireWidthMm }) => rim?.minTireWidthMm && tireWidthMm < rim.minTireWidthMm
+      ? { severity: 'critical', message: `${rim.brand} ${rim.model} requires tires of at least ${rim.minTireWidthMm}mm. A ${tireWidthMm}mm tire is not approved (${rim.source}).` }
+      : null,
+  },
+  {
+    id: 'rim-approved-tires',
+    source: 'Rim manufacturer',
+    evaluate: ({ rim, tire }) => rim?.hookless && rim.approvedTires && tire && !rim.approvedTires.includes(`${tire.brand} ${tire.model}`)
+      ? { severity: 'warning', message: `The ${tire.brand} ${tire.model} is not on the ${rim.brand} ${rim.model} approved tire list (${rim.source}).` }
+      : null,
+  },
+  {
+    id: 'tire-manufacturer-max',
+    source: 'Tire manufacturer',
+    evaluate: ({ tire, pressureUnit }) => {
+      if (!tire) return null;
+      if (tire.maxPsi === undefined) {
+        return { severity: 'warning', message: `No ${tire.widthMm}mm ${tire.brand} ${tire.model} limit on record. Check the maximum pressure on the sidewall.` };
+      }
+      const listed = tire.listedWidthMm !== tire.widthMm ? ` (using the ${tire.listedWidthMm}mm size's limit)` : '';
+      return { maxPsi: tire.maxPsi, severity: 'info', message: `${tire.widthMm}mm ${tire.brand} ${tire.model} maximum pressure is ${pressure(tire.maxPsi, pressureUnit)}${listed} (${tire.source}).` };
+    },
+  },
+  {
+    id: 'tire-hookless-approval',
+    source: 'Tire manufacturer',
+    evaluate: ({ isHookless, tire }) => isHookless && tire && tire.tubelessReady && !tire.hooklessApproved
+      ? { severity: 'critical', message: `The ${tire.brand} ${tire.model} is not approved by its manufacturer for hookless rims.` }
+      : null,
+  },
+  {
+    id: 'rider-rim-max',
+    source: 'Rim decal (entered by rider)',
+    evaluate: ({ rimMaxPsi, pressureUnit }) => rimMaxPsi
+      ? { maxPsi: rimMaxPsi, severity: 'info', message: `Your rim is marked with a ${pressure(rimMaxPsi, pressureUnit)} maximum.` }
+      : null,
+  },
+  {
+    id: 'rider-tire-max',
+    source: 'Tire sidewall (entered by rider)',
+    evaluate: ({ tireMaxPsi, pressureUnit }) => tireMaxPsi
+      ? { maxPsi: tireMaxPsi, severity: 'info', message: `Your tire sidewall is marked with a ${pressure(tireMaxPsi, pressureUnit)} maximum.` }
+      : null,
+  },
+];
+
+// --- Helper Functions ---
+
+// The limit for a width: the listed width itself, or else the next wider one, whose
+// lower limit is the safe side. Undefined when the width is beyond every listed size.
+export function limitForWidth(limits: PressureLimitsByWidth, widthMm: number): { listedWidthMm: number; maxPsi: number } | undefined {
+  const listedWidthMm = Object.keys(limits)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .find(width => width >= widthMm);
+  return listedWidthMm === undefined ? undefined : { listedWidthMm, maxPsi: limits[listedWidthMm] };
+}
+
+// A rim's limit for the tire fitted. Tires wider than the published table get the
+// widest listed limit, never more than the rim's absolute maximum.
+function rimLimitForTireWidth(rim: RimPressureSpec, tireWidthMm: number): { listedWidthMm?: number; maxPsi: number } {
+  if (!rim.maxPsiByTireWidthMm) return { maxPsi: rim.maxPsi };
+  const widths = Object.keys(rim.maxPsiByTireWidthMm).map(Number);
+  const limit = limitForWidth(rim.maxPsiByTireWidthMm, tireWidthMm)
+    ?? { listedWidthMm: Math.max(...widths), maxPsi: rim.maxPsiByTireWidthMm[Math.max(...widths)] };
+  return { listedWidthMm: limit.listedWidthMm, maxPsi: Math.min(limit.maxPsi, rim.maxPsi) };
+}
+
+export function findRimSpec(name?: string): RimPressureSpec | undefined {
+  return name ? RIM_PRESSURE_LIMITS[name.trim()] : undefined;
+}
+
+// The tire model at the rider's width, with the limit for that size.
+export function findTireSpec(name: string | undefined, widthMm: number): TirePressureSpec | undefined {
+  const model = name ? TIRE_PRESSURE_LIMITS[name.trim()] : undefined;
+  if (!model) return undefined;
+
+  const { maxPsiByWidthMm, ...spec } = model;
+  const limit = limitForWidth(maxPsiByWidthMm, widthMm);
+  return { ...spec, widthMm, listedWidthMm: limit?.listedWidthMm, maxPsi: limit?.maxPsi };
+}
+
+// --- The Rules Engine ---
+
+export function evaluatePressureSafety(context: SafetyRuleContext): SafetyEvaluation {
+  const warnings: SafetyWarning[] = [];
+
+  // The catalog knows better than a radio button: treat a known hookless rim as hookless.
+  const isHookless = context.isHookless || Boolean(context.rim?.hookless);
+  if (isHookless && !context.isHookless && context.rim) {
+    warnings.push({
+      ruleId: 'rim-catalog-hookless',
+      severity: 'warning',
+      message: `The ${context.rim.brand} ${context.rim.model} is a hookless rim. Hookless limits have been applied.`,
+      source: context.rim.source,
+    });
+  }
+
+  let limitingRule: SafetyWarning | undefined;
+
+  PRESSURE_SAFETY_RULES.forEach(rule => {
+    const outcome = rule.evaluate({ ...context, isHookless });
+    if (!outcome) return;
+
+    const warning: SafetyWarning = {
+      ruleId: rule.id,
+      severity: outcome.severity,
+      message: outcome.message,
+      source: rule.source,
+      limitPsi: outcome.maxPsi,
+    };
+    warnings.push(warning);
+
+    if (outcome.maxPsi !== undefined && (!limitingRule || outcome.maxPsi < limitingRule.limitPsi!)) {
+      limitingRule = warning;
+    }
+  });
+
+  return {
+    maxPsi: limitingRule?.limitPsi ?? null,
+    limitingRule,
+    warnings,
+    isHookless,
+  };
+}
@@ -0,0 +1,150 @@
+// src/lib/sag-correction.ts
+// Closed-loop sag correction. The rider sets the recommended pressure, measures the
+// sag they actually get and logs it. Working backwards through calculateSuspensionSetup
+// we find the effective weight that would explain that sag (the "sag bias": riding
+// position, seal friction and gauge error all end up in it), then recommend the
+// pressure for the target sag at that weight. Biases from past logs are blended into
+// future recommendations.
+
+import type { SuspensionType } from './air-spring'
+import { calculateSuspensionSetup, type SuspensionCalculationInputs } from './suspension-logic'
+
+// --- Constants ---
+
+// Biases outside this range mean the measurement is wrong (O-ring not reset, rider
+// bouncing), not that the model is that far off.
+const MIN_SAG_BIAS = 0.6
+const MAX_SAG_BIAS = 1.6
+const BISECTION_STEPS = 30
+
+// Recent logs count more: a log's weight halves every this many newer logs.
+const BIAS_HALF_LIFE_LOGS = 3
+// Logs' worth of trust in the unadjusted model, so one odd measurement can't swing
+// future recommendations on its own.
+const PRIOR_LOGS = 1
+
+// --- Interfaces ---
+
+// Row in `sag_logs`
+export interface SagLogEntry {
+  id?: string
+  user_id: string
+  bike_id: string
+  component_id: string
+  component_type: SuspensionType
+  logged_on: string // ISO date
+  pressure_psi: number
+  measured_sag_mm: number
+  travel_mm: number // Fork travel or shock stroke at the time
+  target_sag_percent: number
+  temperature_c?: number | null
+  notes?: string | null
+  sag_bias: number // Implied by this measurement, see correctFromSag
+  created_at?: string
+}
+
+export interface SagMeasurement {
+  pressurePsi: number
+  measuredSagMm: number
+}
+
+export interface SagCorrection {
+  travelMm: number
+  measuredSagPercent: number
+  targetSagPercent: number
+  sagBias: number
+  correctedPressurePsi: number
+  adjustmentPsi: number // correctedPressurePsi - measured pressure
+  notes: string[]
+}
+
+export interface LearnedSagBias {
+  sagBias: number
+  logCount: number
+}
+
+// --- Helper Functions ---
+
+export function suspensionTravelMm(inputs: SuspensionCalculationInputs): number {
+  if (inputs.forkSpecs) return inputs.forkSpecs.travel_mm
+  return inputs.frameKinematics?.shockStrokeMm ?? inputs.shockSpecs?.travel_mm ?? 0
+}
+
+function recommendedPressure(inputs: SuspensionCalculationInputs, sagBias: number, targetSagPercent?: number): number {
+  return calculateSuspensionSetup({ ...inputs, sagBias, targetSagPercent }).airPressure
+}
+
+// --- Correction ---
+
+// Returns null for coil springs, which are corrected by changing the spring.
+export function correctFromSag(inputs: SuspensionCalculationInputs, measurement: SagMeasurement): SagCorrection | null {
+  const baseline = calculateSuspensionSetup({ ...inputs, sagBias: 1 })
+  const travelMm = suspensionTravelMm(inputs)
+  if (baseline.coilSpring || !travelMm) return null
+
+  const measuredSagPercent = measurement.measuredSagMm / travelMm * 100
+  const notes: string[] = []
+
+  // Effective weight at which the model recommends the pressure that gave this sag.
+  // Recommended pressure only grows with weight, so bisect.
+  let low = MIN_SAG_BIAS
+  let high = MAX_SAG_BIAS
+  for (let step = 0; step < BISECTION_STEPS; step++) {
+    const mid = (low + high) / 2
+    if (recommendedPressure(inputs, mid, measuredSagPercent) < measurement.pressurePsi) {
+      low = mid
+    } else {
+      high = mid
+    }
+  }
+  const sagBias = (low + high) / 2
+
+  if (sagBias - MIN_SAG_BIAS < 0.01 || MAX_SAG_BIAS - sagBias < 0.01) {
+    notes.push('This sag is far from what the model expects for that pressure - re-measure before changing anything (reset the O-ring, stand in your riding position, no bouncing)')
+  }
+
+  // Inside the band the current pressure stands; the bias is still logged and learned from
+  const withinBand = Math.abs(measuredSagPercent - baseline.targetSag) <= 2
+  const correctedPressurePsi = withinBand
+    ? measurement.pressurePsi
+    : recommendedPressure(inputs, sagBias, inputs.targetSagPercent)
+  const adjustmentPsi = correctedPressurePsi - measurement.pressurePsi
+  if (withinBand) {
+    notes.push(`Sag is within 2% of your ${baseline.targetSag}% target - no change needed`)
+  }
+
+  return {
+    travelMm,
+    measuredSagPercent,
+    targetSagPercent: baseline.targetSag,
+    sagBias,
+    correctedPressurePsi,
+    adjustmentPsi,
+    notes
+  }
+}
+
+// --- Learning ---
+
+// Blends the biases from a rider's logs for one component type (forks and shocks
+// carry different shares of the rider, so they learn separately).
+export function learnSagBias(logs: SagLogEntry[], componentType: SuspensionType): LearnedSagBias | null {
+  const relevant = logs
+    .filter(log => log.component_type === componentType && log.sag_bias > 0)
+    .sort((a, b) => b.logged_on.localeCompare(a.logged_on))
+  if (relevant.length === 0) return null
+
+  let weightSum = 0
+  let biasSum = 0
+  relevant.forEach((log, index) => {
+    const weight = Math.pow(0.5, index / BIAS_HALF_LIFE_LOGS)
+    weightSum += weight
+    biasSum += weight * log.sag_bias
+  })
+
+  const trust = relevant.length / (relevant.length + PRIOR_LOGS)
+  return {
+    sagBias: 1 + (biasSum / weightSum - 1) * trust,
+    logCount: relevant.length
+  }
+}
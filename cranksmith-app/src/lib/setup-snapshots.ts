@@ -0,0 +1,241 @@
+// src/lib/setup-snapshots.ts
+// Saved suspension setups per garage bike ("bike park", "race day"). A snapshot keeps
+// the calculator inputs needed to restore it and the fork/shock results as they were
+// calculated, so it still reads the same after the catalog or the model changes.
+// Each part also keeps the latest sag the rider measured for it, next to the target.
+
+import { supabase } from './supabase'
+import { DAMPER_ADJUSTER_LABELS, type DamperAdjuster } from './damper-catalog'
+import type { SagLogEntry } from './sag-correction'
+import type { SuspensionCalculationInputs, SuspensionResult } from './suspension-logic'
+import { formatMass, formatPressure, type UnitPreferences } from './units'
+
+// --- Interfaces ---
+
+// Calculator inputs beyond weight and riding style
+export interface SnapshotSettings {
+  targetSagPercent?: number
+  forkTravelMm?: number // The garage fork's travel, not the manual-mode input
+  forkSpacers?: number
+  shockSpacers?: number
+  rearWheelTravelMm?: number
+  frameKey?: string
+  frameSize?: string
+  forkModelYear?: number
+  forkAirSpring?: string
+  shockModelYear?: number
+  wheelSize?: string
+}
+
+// Latest `sag_logs` entry for the part when the snapshot was saved
+export interface SnapshotMeasuredSag {
+  loggedOn: string // ISO date
+  pressurePsi: number
+  sagMm: number
+  sagPercent: number
+}
+
+// A calculated result without the parts that are rebuilt on demand (spring curve)
+export type SnapshotComponent = Pick<SuspensionResult,
+  'airPressure' | 'targetSag' | 'reboundClicks' | 'compressionClicks' | 'damperSettings' |
+  'volumeSpacers' | 'recommendedVolumeSpacers' | 'springRate' | 'coilSpring' | 'leverageRatio' |
+  'notes' | 'accuracy'
+> & {
+  brand: string
+  model: string
+  measuredSag?: SnapshotMeasuredSag
+}
+
+// Row in `suspension_snapshots`
+export interface SetupSnapshot {
+  id?: string
+  user_id: string
+  bike_id: string
+  name: string
+  tags: string[]
+  is_active: boolean
+  rider_weight_lbs: number
+  gear_weight_lbs: number
+  riding_style: SuspensionCalculationInputs['ridingStyle']
+  settings: SnapshotSettings
+  fork: SnapshotComponent | null
+  shock: SnapshotComponent | null
+  created_at?: string
+}
+
+export interface SnapshotComparisonRow {
+  label: string
+  values: string[] // One per snapshot, in order
+  differs: boolean
+}
+
+// --- Constants ---
+
+export const SNAPSHOT_TAG_SUGGESTIONS = ['bike park', 'race day', 'trail', 'wet', 'winter']
+
+const ADJUSTER_ORDER: DamperAdjuster[] = ['hsc', 'lsc', 'hsr', 'lsr']
+
+// --- Helper Functions ---
+
+// `latestLog` is the part's most recent sag log, if the rider has measured it
+export function toSnapshotComponent(brand: string, model: string, result: SuspensionResult, latestLog?: SagLogEntry): SnapshotComponent {
+  return {
+    brand,
+    model,
+    measuredSag: latestLog ? {
+      loggedOn: latestLog.logged_on,
+      pressurePsi: latestLog.pressure_psi,
+      sagMm: latestLog.measured_sag_mm,
+      sagPercent: Math.round(latestLog.measured_sag_mm / latestLog.travel_mm * 1000) / 10
+    } : undefined,
+    airPressure: result.airPressure,
+    targetSag: result.targetSag,
+    reboundClicks: result.reboundClicks,
+    compressionClicks: result.compressionClicks,
+    damperSettings: result.damperSettings,
+    volumeSpacers: result.volumeSpacers,
+    recommendedVolumeSpacers: result.recommendedVolumeSpacers,
+    springRate: result.springRate,
+    coilSpring: result.coilSpring,
+    leverageRatio: result.leverageRatio,
+    notes: result.notes,
+    accuracy: result.accuracy
+  }
+}
+
+// "Bike Park, race day,,bike park" -> ['bike park', 'race day']
+export function parseSnapshotTags(input: string): string[] {
+  const tags = input.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)
+  return [...new Set(tags)]
+}
+
+function springValue(component: SnapshotComponent | null, units: UnitPreferences): string {
+  if (!component) return '-'
+  return component.coilSpring ? `${component.springRate} lbs/in` : formatPressure(component.airPressure, units.pressure)
+}
+
+// --- Comparison ---
+
+// Side-by-side rows for two or more snapshots. Damper adjusters get a row each when
+// any snapshot has them.
+export function compareSnapshots(snapshots: SetupSnapshot[], units: UnitPreferences): SnapshotComparisonRow[] {
+  const rows: SnapshotComparisonRow[] = []
+  const addRow = (label: string, valueOf: (snapshot: SetupSnapshot) => string) => {
+    const values = snapshots.map(valueOf)
+    rows.push({ label, values, differs: values.some(value => value !== values[0]) })
+  }
+
+  addRow('Rider weight', snapshot => formatMass(snapshot.rider_weight_lbs, units.mass))
+  addRow('Gear weight', snapshot => formatMass(snapshot.gear_weight_lbs, units.mass))
+  addRow('Riding style', snapshot => snapshot.riding_style)
+
+  for (const part of ['fork', 'shock'] as const) {
+    if (!snapshots.some(snapshot => snapshot[part])) continue
+    const title = part === 'fork' ? 'Fork' : 'Shock'
+    const optional = (value: number | undefined) => value === undefined ? '-' : String(value)
+
+    addRow(title, snapshot => snapshot[part] ? `${snapshot[part]!.brand} ${snapshot[part]!.model}` : '-')
+    addRow(`${title} spring`, snapshot => springValue(snapshot[part], units))
+    addRow(`${title} sag`, snapshot => snapshot[part] ? `${snapshot[part]!.targetSag}%` : '-')
+    if (snapshots.some(snapshot => snapshot[part]?.measuredSag)) {
+      addRow(`${title} measured sag`, snapshot => {
+        const measured = snapshot[part]?.measuredSag
+        return measured ? `${measured.sagPercent}% at ${formatPressure(measured.pressurePsi, units.pressure)} (${measured.loggedOn})` : '-'
+      })
+    }
+    addRow(`${title} spacers`, snapshot => optional(snapshot[part]?.volumeSpacers))
+
+    const adjusters = ADJUSTER_ORDER.filter(adjuster => snapshots.some(snapshot => snapshot[part]?.damperSettings?.adjusters[adjuster]))
+    if (adjusters.length > 0) {
+      for (const adjuster of adjusters) {
+        addRow(`${title} ${DAMPER_ADJUSTER_LABELS[adjuster]}`, snapshot => optional(snapshot[part]?.damperSettings?.adjusters[adjuster]?.clicksFromClosed))
+      }
+    } else {
+      addRow(`${title} rebound`, snapshot => optional(snapshot[part]?.reboundClicks))
+      addRow(`${title} compression`, snapshot => optional(snapshot[part]?.compressionClicks))
+    }
+  }
+
+  return rows
+}
+
+// --- Storage ---
+
+export async function fetchSnapshots(bikeId: string): Promise<SetupSnapshot[]> {
+  const { data, error } = await supabase
+    .from('suspension_snapshots')
+    .select('*')
+    .eq('bike_id', bikeId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching suspension snapshots:', error)
+    return []
+  }
+
+  return data || []
+}
+
+export async function fetchSnapshot(snapshotId: string): Promise<SetupSnapshot | null> {
+  const { data, error } = await supabase
+    .from('suspension_snapshots')
+    .select('*')
+    .eq('id', snapshotId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching suspension snapshot:', error)
+    return null
+  }
+
+  return data
+}
+
+// Makes one snapshot the bike's active setup, clearing the previous one in the same
+// transaction (see the activate_suspension_snapshot migration).
+export async function activateSnapshot(bikeId: string, snapshotId: string): Promise<boolean> {
+  const { error } = await supabase.rpc('activate_suspension_snapshot', {
+    target_bike_id: bikeId,
+    target_snapshot_id: snapshotId
+  })
+
+  if (error) {
+    console.error('Error activating snapshot:', error)
+    return false
+  }
+
+  return true
+}
+
+export async function saveSnapshot(snapshot: SetupSnapshot): Promise<SetupSnapshot | null> {
+  const { data, error } = await supabase
+    .from('suspension_snapshots')
+    .insert([{ ...snapshot, is_active: false }])
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error saving suspension snapshot:', error)
+    return null
+  }
+
+  if (snapshot.is_active && !(await activateSnapshot(snapshot.bike_id, data.id))) {
+    return data
+  }
+
+  return { ...data, is_active: snapshot.is_active }
+}
+
+export async function deleteSnapshot(snapshotId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('suspension_snapshots')
+    .delete()
+    .eq('id', snapshotId)
+
+  if (error) {
+    console.error('Error deleting suspension snapshot:', error)
+    return false
+  }
+
+  return true
+}
@@ -0,0 +1,192 @@
+// src/lib/spec-resolution.ts
+// Resolves fork/shock specs for the rider's actual product. A catalog product is a
+// family (e.g. RockShox Pike Ultimate) whose `forks` / `shocks` row holds the current
+// version's specs. Rows in `suspension_spec_variants` override some of those fields for
+// a model-year range, travel range, air spring version or wheel size, so a 2019 Pike
+// doesn't get 2024 limits. Every resolved field records where it came from.
+
+import { parsePressureChart } from './pressure-chart'
+import type { PressureChart, SuspensionSpecs } from './suspension-logic'
+
+// --- Interfaces ---
+
+// Row in `forks` / `shocks`, without product_id
+export interface SuspensionDetailRow {
+  travel_mm: number
+  stanchion_diameter_mm: number
+  air_chamber_volume_cc?: number | null
+  negative_chamber_volume_cc?: number | null
+  air_piston_diameter_mm?: number | null
+  max_pressure_psi: number
+  recommended_sag_percent: number
+  spring_curve: SuspensionSpecs['spring_curve']
+  damper?: string | null
+  baseline_pressure_chart?: PressureChart[] | null
+  baseline_pressure_chart_source?: string | null
+}
+
+export type SpecField = keyof SuspensionDetailRow
+
+// Row in `suspension_spec_variants`. Empty constraints match any product.
+export interface SpecVariant {
+  id: string
+  product_id: string
+  label: string // e.g. "2019-2022 (Charger 2.1, DebonAir)"
+  model_year_from?: number | null
+  model_year_to?: number | null
+  travel_min_mm?: number | null
+  travel_max_mm?: number | null
+  air_spring?: string | null
+  wheel_size?: string | null
+  overrides: Partial<SuspensionDetailRow>
+}
+
+// What the rider knows about their fork/shock. Variants constrained by something the
+// rider didn't give are skipped.
+export interface SpecQuery {
+  modelYear?: number
+  travelMm?: number // Fork travel or shock stroke
+  airSpring?: string
+  wheelSize?: string // '27.5' | '29'
+}
+
+export interface ResolvedSpecs {
+  specs: SuspensionSpecs
+  variants: string[] // Labels of the variants applied, least specific first
+  fieldSources: Partial<Record<SpecField, string>> // What set each non-family field
+  inheritedFields: SpecField[] // Taken unchanged from the parent family
+  notes: string[]
+}
+
+// --- Constants ---
+
+export const SPEC_FIELDS: SpecField[] = [
+  'travel_mm',
+  'stanchion_diameter_mm',
+  'air_chamber_volume_cc',
+  'negative_chamber_volume_cc',
+  'air_piston_diameter_mm',
+  'max_pressure_psi',
+  'recommended_sag_percent',
+  'spring_curve',
+  'damper',
+  'baseline_pressure_chart',
+  'baseline_pressure_chart_source'
+]
+
+export const SPEC_FIELD_LABELS: Record<SpecField, string> = {
+  travel_mm: 'Travel',
+  stanchion_diameter_mm: 'Stanchion / shaft diameter',
+  air_chamber_volume_cc: 'Air chamber volume',
+  negative_chamber_volume_cc: 'Negative chamber volume',
+  air_piston_diameter_mm: 'Air piston diameter',
+  max_pressure_psi: 'Max pressure',
+  recommended_sag_percent: 'Recommended sag',
+  spring_curve: 'Spring curve',
+  damper: 'Damper',
+  baseline_pressure_chart: 'Pressure chart',
+  baseline_pressure_chart_source: 'Pressure chart source'
+}
+
+// --- Helper Functions ---
+
+// Lowercase, no accents, no spaces or punctuation: "Öhlins" = "ohlins",
+// "SuperDeluxe" = "Super Deluxe", "Step-Cast" = "StepCast".
+export function compactName(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+export function toSuspensionSpecs(brand: string, model: string, detail: SuspensionDetailRow): SuspensionSpecs {
+  return {
+    brand,
+    model,
+    travel_mm: detail.travel_mm,
+    stanchion_diameter_mm: detail.stanchion_diameter_mm,
+    air_chamber_volume_cc: detail.air_chamber_volume_cc ?? undefined,
+    negative_chamber_volume_cc: detail.negative_chamber_volume_cc ?? undefined,
+    air_piston_diameter_mm: detail.air_piston_diameter_mm ?? undefined,
+    baseline_pressure_chart: parsePressureChart(detail.baseline_pressure_chart, detail.recommended_sag_percent) ?? undefined,
+    baseline_pressure_chart_source: detail.baseline_pressure_chart_source ?? undefined,
+    max_pressure_psi: detail.max_pressure_psi,
+    recommended_sag_percent: detail.recommended_sag_percent,
+    spring_curve: detail.spring_curve,
+    damper: detail.damper ?? undefined
+  }
+}
+
+function isSet<T>(value: T | null | undefined): value is T {
+  return value !== null && value !== undefined
+}
+
+export function variantMatches(variant: SpecVariant, query: SpecQuery): boolean {
+  if (isSet(variant.model_year_from) || isSet(variant.model_year_to)) {
+    if (!query.modelYear) return false
+    if (isSet(variant.model_year_from) && query.modelYear < variant.model_year_from) return false
+    if (isSet(variant.model_year_to) && query.modelYear > variant.model_year_to) return false
+  }
+  if (isSet(variant.travel_min_mm) || isSet(variant.travel_max_mm)) {
+    if (!query.travelMm) return false
+    if (isSet(variant.travel_min_mm) && query.travelMm < variant.travel_min_mm) return false
+    if (isSet(variant.travel_max_mm) && query.travelMm > variant.travel_max_mm) return false
+  }
+  if (isSet(variant.air_spring) && (!query.airSpring || compactName(query.airSpring) !== compactName(variant.air_spring))) return false
+  if (isSet(variant.wheel_size) && (!query.wheelSize || compactName(query.wheelSize) !== compactName(variant.wheel_size))) return false
+  return true
+}
+
+// Number of constraints; more specific variants are applied later and win.
+function specificity(variant: SpecVariant): number {
+  return [
+    isSet(variant.model_year_from) || isSet(variant.model_year_to),
+    isSet(variant.travel_min_mm) || isSet(variant.travel_max_mm),
+    isSet(variant.air_spring),
+    isSet(variant.wheel_size)
+  ].filter(Boolean).length
+}
+
+// --- Resolution ---
+
+export function resolveSpecs(brand: string, model: string, family: SuspensionDetailRow, variants: SpecVariant[], query: SpecQuery = {}): ResolvedSpecs {
+  const detail: SuspensionDetailRow = { ...family }
+  const fieldSources: Partial<Record<SpecField, string>> = {}
+  const notes: string[] = []
+  const setField = <F extends SpecField>(field: F, value: SuspensionDetailRow[F], source: string) => {
+    detail[field] = value
+    fieldSources[field] = source
+  }
+
+  const applied = variants
+    .filter(variant => variantMatches(variant, query))
+    .sort((a, b) => specificity(a) - specificity(b) || (a.model_year_from ?? 0) - (b.model_year_from ?? 0))
+  for (const variant of applied) {
+    for (const field of SPEC_FIELDS) {
+      if (field in variant.overrides) setField(field, variant.overrides[field] as SuspensionDetailRow[typeof field], variant.label)
+    }
+  }
+
+  // Travel the catalog has no variant for: the positive chamber grows with the air
+  // shaft, so scale its volume with travel.
+  if (query.travelMm && query.travelMm !== detail.travel_mm) {
+    if (detail.air_chamber_volume_cc && !fieldSources.air_chamber_volume_cc) {
+      setField('air_chamber_volume_cc', Math.round(detail.air_chamber_volume_cc * query.travelMm / detail.travel_mm), `Scaled to ${query.travelMm}mm travel`)
+    }
+    setField('travel_mm', query.travelMm, 'Your travel')
+  }
+
+  if (!query.modelYear && variants.some(variant => isSet(variant.model_year_from) || isSet(variant.model_year_to))) {
+    notes.push(`${brand} ${model} specs changed between model years - enter yours to use the right limits (showing the current version)`)
+  }
+  if (!query.airSpring && variants.some(variant => isSet(variant.air_spring))) {
+    notes.push(`${brand} ${model} was sold with more than one air spring - enter yours for exact specs`)
+  }
+
+  const inheritedFields = SPEC_FIELDS.filter(field => !fieldSources[field] && isSet(detail[field]))
+
+  return {
+    specs: toSuspensionSpecs(brand, model, detail),
+    variants: applied.map(variant => variant.label),
+    fieldSources,
+    inheritedFields,
+    notes
+  }
+}
@@ -0,0 +1,365 @@
+// src/lib/suspension-catalog.ts
+// Fork and shock specs from the products catalog: a `products` row per fork/shock with
+// its specs in the `forks` / `shocks` detail table (see the create_suspension_catalog
+// migration). Also validates the JSON/CSV files accepted by the admin import route.
+
+import { supabase } from './supabase'
+import type { SuspensionType } from './air-spring'
+import { DAMPER_CATALOG } from './damper-catalog'
+import { parsePressureChart } from './pressure-chart'
+import {
+  compactName,
+  resolveSpecs,
+  type ResolvedSpecs,
+  type SpecQuery,
+  type SpecVariant,
+  type SuspensionDetailRow
+} from './spec-resolution'
+import type { PressureChart, SuspensionSpecs } from './suspension-logic'
+
+// --- Constants ---
+
+export const SUSPENSION_DETAIL_TABLES: Record<SuspensionType, 'forks' | 'shocks'> = {
+  fork: 'forks',
+  shock: 'shocks'
+}
+
+// Plausible travel (forks) and stroke (shocks). A shock "travel" above this is almost
+// always the bike's rear wheel travel typed into the wrong column.
+const TRAVEL_RANGE_MM: Record<SuspensionType, [number, number]> = {
+  fork: [60, 220],
+  shock: [20, 100]
+}
+
+const SPRING_CURVES: SuspensionSpecs['spring_curve'][] = ['linear', 'progressive', 'digressive', 'coil']
+
+const NUMERIC_FIELDS = [
+  'travel_mm',
+  'stanchion_diameter_mm',
+  'air_chamber_volume_cc',
+  'negative_chamber_volume_cc',
+  'air_piston_diameter_mm',
+  'max_pressure_psi',
+  'recommended_sag_percent'
+] as const
+
+// --- Interfaces ---
+
+export interface SuspensionProduct {
+  id: string
+  brand: string
+  model: string
+  product_type: SuspensionType
+}
+
+interface SuspensionProductRow {
+  brand: string
+  model: string
+  forks?: SuspensionDetailRow | SuspensionDetailRow[] | null
+  shocks?: SuspensionDetailRow | SuspensionDetailRow[] | null
+  suspension_spec_variants?: SpecVariant[] | null
+}
+
+// Optional detail fields are only present when the source row gave them (see
+// validateImportRecord); `product_id` is set by linkExistingProducts.
+export interface SuspensionImportRecord extends SuspensionDetailRow {
+  product_id?: string
+  product_type: SuspensionType
+  brand: string
+  model: string
+  description?: string
+}
+
+export interface SuspensionImportError {
+  row: number // 1-based record number (CSV header not counted)
+  message: string
+}
+
+export interface SuspensionImportResult {
+  records: SuspensionImportRecord[]
+  errors: SuspensionImportError[]
+}
+
+// --- Catalog Lookups ---
+
+// Forks or shocks that have specs, for pickers and name matching.
+export async function fetchSuspensionProducts(type: SuspensionType): Promise<SuspensionProduct[]> {
+  const { data, error } = await supabase
+    .from('products')
+    .select(`id, brand, model, product_type, ${SUSPENSION_DETAIL_TABLES[type]}!inner (product_id)`)
+    .eq('product_type', type)
+    .order('brand', { ascending: true })
+    .order('model', { ascending: true })
+
+  if (error) {
+    console.error(`Error fetching ${type} products:`, error)
+    return []
+  }
+
+  // The select is built at runtime, so supabase-js can't infer the row type
+  const products = (data || []) as unknown as Omit<SuspensionProduct, 'product_type'>[]
+  return products.map(product => ({
+    id: product.id,
+    brand: product.brand,
+    model: product.model,
+    product_type: type
+  }))
+}
+
+// Garage components and typed names rarely match the catalog exactly ("36 Float
+// Factory GRIP2", "Ohlins", "Super Deluxe"). Compares compacted names, then falls back
+// to the closest catalog model that one name starts with.
+export function findSuspensionProduct(products: SuspensionProduct[], brand: string, model: string): SuspensionProduct | null {
+  const brandKey = compactName(brand)
+  let modelKey = compactName(model)
+  if (modelKey.startsWith(brandKey)) modelKey = modelKey.slice(brandKey.length)
+  if (!modelKey) return null
+
+  const sameBrand = products.filter(product => compactName(product.brand) === brandKey)
+  const exact = sameBrand.find(product => compactName(product.model) === modelKey)
+  if (exact) return exact
+
+  // Longest catalog model the name starts with ("36 Float Factory" -> "36 Float"),
+  // else the shortest catalog model starting with the name ("Super Deluxe" -> "Super Deluxe Ultimate")
+  const prefixOf = sameBrand
+    .filter(product => modelKey.startsWith(compactName(product.model)))
+    .sort((a, b) => b.model.length - a.model.length)
+  if (prefixOf.length > 0) return prefixOf[0]
+
+  const extensions = sameBrand
+    .filter(product => compactName(product.model).startsWith(modelKey))
+    .sort((a, b) => a.model.length - b.model.length)
+  return extensions[0] ?? null
+}
+
+// Family specs with the variants matching `query` applied, see resolveSpecs.
+async function getSuspensionSpecs(type: SuspensionType, productId: string, query: SpecQuery): Promise<ResolvedSpecs | null> {
+  const table = SUSPENSION_DETAIL_TABLES[type]
+  const { data, error } = await supabase
+    .from('products')
+    .select(`brand, model, ${table} (*), suspension_spec_variants (*)`)
+    .eq('id', productId)
+    .eq('product_type', type)
+    .maybeSingle()
+
+  if (error) {
+    console.error(`Error fetching ${type} specs:`, error)
+    return null
+  }
+
+  const product = data as unknown as SuspensionProductRow | null
+  // One-to-one embeds come back as an object, or a one-element array on older PostgREST
+  const embedded = product?.[table]
+  const detail = Array.isArray(embedded) ? embedded[0] : embedded
+  if (!product || !detail) return null
+
+  return resolveSpecs(product.brand, product.model, detail, product.suspension_spec_variants || [], query)
+}
+
+export async function getForkSpecs(productId: string, query: SpecQuery = {}): Promise<ResolvedSpecs | null> {
+  return getSuspensionSpecs('fork', productId, query)
+}
+
+// `query.travelMm` is the shock stroke.
+export async function getShockSpecs(productId: string, query: SpecQuery = {}): Promise<ResolvedSpecs | null> {
+  return getSuspensionSpecs('shock', productId, query)
+}
+
+// --- Import ---
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      cells.push(cell.trim())
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  cells.push(cell.trim())
+  return cells
+}
+
+function parseCsv(raw: string): Record<string, string>[] {
+  const lines = raw.split(/\r?\n/).filter(line => line.trim())
+  if (lines.length === 0) return []
+  const headers = splitCsvLine(lines[0]).map(header => header.toLowerCase())
+  return lines.slice(1).map(line => {
+    const cells = splitCsvLine(line)
+    return Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? '']))
+  })
+}
+
+// Missing keys and blank cells; an explicit JSON null is a value (it clears the field).
+function isBlank(value: unknown): boolean {
+  return value === undefined || (typeof value === 'string' && value.trim() === '')
+}
+
+// Same product whatever the spelling, see compactName
+function importKey(type: string, brand: string, model: string): string {
+  return `${type}:${compactName(brand)}:${compactName(model)}`
+}
+
+// Empty cells are undefined; anything else that isn't a number is NaN.
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  return typeof value === 'number' ? value : Number(value)
+}
+
+function validateImportRecord(raw: Record<string, unknown>): { record?: SuspensionImportRecord, errors: string[] } {
+  const errors: string[] = []
+  const productType = String(raw.product_type ?? '').trim().toLowerCase()
+  const brand = String(raw.brand ?? '').trim()
+  const model = String(raw.model ?? '').trim()
+
+  if (productType !== 'fork' && productType !== 'shock') errors.push(`product_type must be 'fork' or 'shock', got '${productType}'`)
+  if (!brand) errors.push('brand is required')
+  if (!model) errors.push('model is required')
+
+  const numbers: Partial<Record<typeof NUMERIC_FIELDS[number], number>> = {}
+  for (const field of NUMERIC_FIELDS) {
+    const value = toNumber(raw[field])
+    if (value !== undefined && !Number.isFinite(value)) {
+      errors.push(`${field} must be a number`)
+    } else if (value !== undefined) {
+      numbers[field] = value
+    }
+  }
+
+  const springCurve = String(raw.spring_curve ?? '').trim().toLowerCase() as SuspensionSpecs['spring_curve']
+  if (!SPRING_CURVES.includes(springCurve)) errors.push(`spring_curve must be one of ${SPRING_CURVES.join(', ')}`)
+  const isCoil = springCurve === 'coil'
+
+  if (numbers.travel_mm === undefined) {
+    errors.push('travel_mm is required')
+  } else if (productType === 'fork' || productType === 'shock') {
+    const [min, max] = TRAVEL_RANGE_MM[productType]
+    if (numbers.travel_mm < min || numbers.travel_mm > max) {
+      errors.push(`travel_mm ${numbers.travel_mm} is outside ${min}-${max}mm for a ${productType}${productType === 'shock' ? ' (use the shock stroke, not wheel travel)' : ''}`)
+    }
+  }
+  if (!numbers.stanchion_diameter_mm || numbers.stanchion_diameter_mm <= 0) errors.push('stanchion_diameter_mm must be positive')
+  if (numbers.recommended_sag_percent === undefined || numbers.recommended_sag_percent < 5 || numbers.recommended_sag_percent > 50) {
+    errors.push('recommended_sag_percent must be between 5 and 50')
+  }
+  if (isCoil && numbers.max_pressure_psi) errors.push('max_pressure_psi must be 0 or empty for coil springs')
+  if (!isCoil && !((numbers.max_pressure_psi ?? 0) > 0)) errors.push('max_pressure_psi must be positive for air springs')
+  for (const field of ['air_chamber_volume_cc', 'negative_chamber_volume_cc', 'air_piston_diameter_mm'] as const) {
+    if (numbers[field] !== undefined && numbers[field]! <= 0) errors.push(`${field} must be positive when given`)
+  }
+
+  const damper = String(raw.damper ?? '').trim() || null
+  if (damper && !DAMPER_CATALOG[damper]) errors.push(`Unknown damper '${damper}'; expected one of ${Object.keys(DAMPER_CATALOG).join(', ')}`)
+
+  let chart: PressureChart[] | null = null
+  const rawChart = raw.baseline_pressure_chart
+  if (rawChart !== undefined && rawChart !== null && rawChart !== '') {
+    chart = parsePressureChart(
+      typeof rawChart === 'string' ? rawChart : JSON.stringify(rawChart),
+      numbers.recommended_sag_percent ?? 25
+    )
+    if (!chart) errors.push('baseline_pressure_chart needs at least 2 rows like "150 lbs: 70 psi"')
+  }
+
+  if (errors.length > 0) return { errors }
+
+  // Optional fields the row left out or blank are omitted, so re-importing a product
+  // keeps what is stored; an explicit null clears them. Coil springs have no air chambers.
+  const optional: Partial<SuspensionDetailRow> = {}
+  const setOptional = <K extends keyof SuspensionDetailRow>(field: K, value: SuspensionDetailRow[K]) => {
+    if (raw[field] === null) optional[field] = null as SuspensionDetailRow[K]
+    else if (!isBlank(raw[field])) optional[field] = value
+  }
+  for (const field of ['air_chamber_volume_cc', 'negative_chamber_volume_cc', 'air_piston_diameter_mm'] as const) {
+    if (isCoil) optional[field] = null
+    else setOptional(field, numbers[field])
+  }
+  setOptional('damper', damper)
+  setOptional('baseline_pressure_chart', chart)
+  setOptional('baseline_pressure_chart_source', String(raw.baseline_pressure_chart_source ?? '').trim())
+
+  return {
+    errors,
+    record: {
+      product_type: productType as SuspensionType,
+      brand,
+      model,
+      description: String(raw.description ?? '').trim() || `${brand} ${model}`,
+      travel_mm: numbers.travel_mm!,
+      stanchion_diameter_mm: numbers.stanchion_diameter_mm!,
+      max_pressure_psi: isCoil ? 0 : numbers.max_pressure_psi!,
+      recommended_sag_percent: numbers.recommended_sag_percent!,
+      spring_curve: springCurve,
+      ...optional
+    }
+  }
+}
+
+// Accepts a JSON array of records or a CSV with a header row using the same field
+// names as the detail tables, plus product_type, brand, model and description.
+// Every record is validated; nothing should be imported while `errors` is non-empty.
+export function parseSuspensionImport(raw: string): SuspensionImportResult {
+  const trimmed = raw.trim()
+  let rows: Record<string, unknown>[]
+
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed)
+      rows = Array.isArray(parsed) ? parsed.map(row => (typeof row === 'object' && row !== null ? row : {}) as Record<string, unknown>) : []
+    } catch (error) {
+      return { records: [], errors: [{ row: 0, message: `Invalid JSON: ${(error as Error).message}` }] }
+    }
+  } else {
+    rows = parseCsv(trimmed)
+  }
+
+  if (rows.length === 0) {
+    return { records: [], errors: [{ row: 0, message: 'No records found' }] }
+  }
+
+  const records: SuspensionImportRecord[] = []
+  const errors: SuspensionImportError[] = []
+  const seen = new Set<string>()
+
+  rows.forEach((row, index) => {
+    const { record, errors: rowErrors } = validateImportRecord(row)
+    rowErrors.forEach(message => errors.push({ row: index + 1, message }))
+    if (!record) return
+
+    const key = importKey(record.product_type, record.brand, record.model)
+    if (seen.has(key)) {
+      errors.push({ row: index + 1, message: `Duplicate ${record.product_type} ${record.brand} ${record.model}` })
+      return
+    }
+    seen.add(key)
+    records.push(record)
+  })
+
+  return { records, errors }
+}
+
+// Points records at catalog products spelled differently ("Ohlins" for "Öhlins",
+// "SuperDeluxe" for "Super Deluxe") by the same compacted names the duplicate check
+// uses, so the import updates them instead of adding near-duplicate products.
+export function linkExistingProducts(records: SuspensionImportRecord[], products: SuspensionProduct[]): SuspensionImportRecord[] {
+  const byKey = new Map(products.map(product => [importKey(product.product_type, product.brand, product.model), product.id]))
+  return records.map(record => {
+    const productId = byKey.get(importKey(record.product_type, record.brand, record.model))
+    return productId ? { ...record, product_id: productId } : record
+  })
+}
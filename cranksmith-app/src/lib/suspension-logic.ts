@@ -1,16 +1,37 @@
 // src/lib/suspension-logic.ts
 // Improved suspension calculation logic based on real physics
 
+import { DEFAULT_UNIT_PREFERENCES, formatMass, formatPressure, type UnitPreferences } from './units'
+import {
+  buildSpringCurve,
+  convertPressureForSag,
+  getAirSpringConfig,
+  maxVolumeSpacers,
+  solvePressureForSag,
+  type SpringCurvePoint,
+  type SuspensionType
+} from './air-spring'
+import { frameKey, leverageProgression, leverageRatioAt, type FrameKinematics } from './frame-kinematics'
+import { interpolate } from './interpolation'
+import { selectCoilSpring, type CoilSpringSelection } from './coil-springs'
+import { recommendDamperSettings, type DamperSettings } from './damper-catalog'
+import { readPressureChart, type PressureChartReading } from './pressure-chart'
+
 export interface SuspensionSpecs {
   brand: string
   model: string
   travel_mm: number
   stanchion_diameter_mm: number
-  air_chamber_volume_cc?: number // If known
-  baseline_pressure_chart?: PressureChart[]
+  air_chamber_volume_cc?: number // If known; the positive chamber
+  negative_chamber_volume_cc?: number // If known; estimated from spring_curve otherwise
+  air_piston_diameter_mm?: number // If known; estimated from stanchion size (forks) otherwise
+  baseline_pressure_chart?: PressureChart[] // See parsePressureChart for components' text charts
+  baseline_pressure_chart_source?: string // Cited in the notes, e.g. "Fox 2024 owner's manual"
   max_pressure_psi: number
   recommended_sag_percent: number
-  spring_curve: 'linear' | 'progressive' | 'digressive'
+  spring_curve: 'linear' | 'progressive' | 'digressive' | 'coil'
+  damper?: string // Key into DAMPER_CATALOG
+  estimated?: boolean // Not from the catalog; built from the rider's own figures and defaults
 }
 
 export interface PressureChart {
@@ -19,6 +40,8 @@ export interface PressureChart {
   sag_percent: number
 }
 
+// Weights in lbs and lengths in mm whatever the rider's preferences; pages convert
+// with ./units before calling in. `units` only changes how the notes are written.
 export interface SuspensionCalculationInputs {
   riderWeightLbs: number
   gearWeightLbs: number
@@ -26,14 +49,25 @@ export interface SuspensionCalculationInputs {
   shockSpecs?: SuspensionSpecs
   ridingStyle: 'xc' | 'trail' | 'enduro' | 'dh' | 'casual'
   targetSagPercent?: number // Allow custom sag targets
+  volumeSpacers?: number // Spacers/tokens fitted to the air spring; recommended count used otherwise
+  rearWheelTravelMm?: number // Sets an average shock leverage ratio when the frame isn't known
+  frameKinematics?: FrameKinematics // Leverage curve and shock stroke for the rear shock
+  sagBias?: number // Effective-weight multiplier learned from the rider's sag logs, see sag-correction
+  units?: UnitPreferences // Units for notes; airPressure is always PSI
 }
 
 export interface SuspensionResult {
-  airPressure: number
+  airPressure: number // PSI, format with formatPressure from ./units
   targetSag: number
-  reboundClicks: number
-  compressionClicks?: number
-  volumeSpacers?: number
+  reboundClicks: number // Low-speed rebound, clicks from closed
+  compressionClicks?: number // Low-speed compression, clicks from closed; needs a known damper
+  damperSettings?: DamperSettings // Every adjuster on a known damper
+  volumeSpacers?: number // Spacers used in the air-spring model
+  recommendedVolumeSpacers?: number // For the riding style; air springs only
+  springCurve?: SpringCurvePoint[] // Force vs. travel at airPressure; air-spring model only
+  springRate?: number // lbs/in, catalog spring for coil forks/shocks (airPressure is 0)
+  coilSpring?: CoilSpringSelection // Required rate and neighbouring spring sizes; coil only
+  leverageRatio?: number // Rear wheel travel per mm of shock stroke at sag; shocks only
   notes: string[]
   accuracy: 'high' | 'medium' | 'low'
 }
@@ -74,6 +108,23 @@ const SUSPENSION_CONSTANTS = {
     casual: 1.05   // Slightly higher for comfort/safety
   },
 
+  // Share of rider weight on the front wheel when measuring sag (standing, attack position)
+  SAG_FRONT_LOAD_SHARE: 0.38,
+
+  // Forks sit at the head angle, so only part of the vertical load acts along the
+  // fork axis. cos(90° - 65° head angle)
+  FORK_AXIAL_LOAD_FACTOR: Math.cos((25 * Math.PI) / 180),
+
+  // Rear wheel travel / shock stroke for a typical modern trail bike
+  DEFAULT_LEVERAGE_RATIO: 2.6,
+
+  // Volume spacers/tokens by discipline. More spacers add bottom-out support for big
+  // hits; XC and casual riders want all the travel they can get.
+  RECOMMENDED_VOLUME_SPACERS: {
+    fork: { xc: 0, trail: 1, enduro: 2, dh: 3, casual: 0 },
+    shock: { xc: 0, trail: 1, enduro: 2, dh: 2, casual: 0 }
+  },
+
   // Target sag percentages by discipline
   TARGET_SAG: {
     xc: 20,        // 20% sag for efficiency
@@ -84,458 +135,19 @@ const SUSPENSION_CONSTANTS = {
   }
 }
 
-// NOTE: This database provides approximate and default values.
-// - `travel_mm` often represents a common configuration, but many forks are adjustable or sold in different travel lengths.
-// - `air_chamber_volume_cc` is an ESTIMATED value, as manufacturers do not publish this internal spec. It's derived from stanchion size, travel, and fork architecture to provide a reasonable baseline for calculations.
-// - `max_pressure_psi` and `recommended_sag_percent` are based on manufacturer guidelines but can vary by rider preference and specific model year.
-
-export const FORK_DATABASE: Record<string, SuspensionSpecs> = {
-  // --- FOX ---
-  'Fox 32 Step-Cast Float': {
-    brand: 'Fox',
-    model: '32 Step-Cast Float',
-    travel_mm: 100, // Common for XC, up to 120mm
-    stanchion_diameter_mm: 32,
-    air_chamber_volume_cc: 280, // Approximate, smaller volume for XC race
-    max_pressure_psi: 250,
-    recommended_sag_percent: 15,
-    spring_curve: 'linear'
-  },
-  'Fox 34 Float': {
-    brand: 'Fox',
-    model: '34 Float',
-    travel_mm: 140, // Common for Trail, typically 120-140mm
-    stanchion_diameter_mm: 34,
-    air_chamber_volume_cc: 350, // Approximate
-    max_pressure_psi: 140, // For GRIP2/Float EVOL, older FIT4 can be higher
-    recommended_sag_percent: 20,
-    spring_curve: 'progressive'
-  },
-  'Fox 34 Step-Cast Float': {
-    brand: 'Fox',
-    model: '34 Step-Cast Float',
-    travel_mm: 120, // Common for "Downcountry", 100-120mm
-    stanchion_diameter_mm: 34,
-    air_chamber_volume_cc: 320, // Approximate, slightly smaller than standard 34
-    max_pressure_psi: 140,
-    recommended_sag_percent: 20,
-    spring_curve: 'progressive'
-  },
-  'Fox 36 Float': {
-    brand: 'Fox',
-    model: '36 Float',
-    travel_mm: 160, // Common for Enduro, typically 150-170mm
-    stanchion_diameter_mm: 36,
-    air_chamber_volume_cc: 410, // Approximate
-    max_pressure_psi: 140, // For GRIP2/Float EVOL
-    recommended_sag_percent: 20,
-    spring_curve: 'progressive'
-  },
-  'Fox 38 Float': {
-    brand: 'Fox',
-    model: '38 Float',
-    travel_mm: 170, // Common for Enduro/Freeride, typically 160-180mm
-    stanchion_diameter_mm: 38,
-    air_chamber_volume_cc: 460, // Approximate, larger volume for big hits
-    max_pressure_psi: 140, // For GRIP2/Float EVOL
-    recommended_sag_percent: 20,
-    spring_curve: 'progressive'
-  },
-  'Fox 40 Float': {
-    brand: 'Fox',
-    model: '40 Float',
-    travel_mm: 203, // Standard DH travel
-    stanchion_diameter_mm: 40,
-    air_chamber_volume_cc: 550, // Approximate, large volume DH fork
-    max_pressure_psi: 140,
-    recommended_sag_percent: 25,
-    spring_curve: 'progressive'
-  },
-
-  // --- ROCKSHOX ---
-  'RockShox SID SL Ultimate': {
-    brand: 'RockShox',
-    model: 'SID SL Ultimate',
-    travel_mm: 100, // Standard for XC race
-    stanchion_diameter_mm: 32,
-    air_chamber_volume_cc: 290, // Approximate
-    max_pressure_psi: 240,
-    recommended_sag_percent: 15,
-    spring_curve: 'linear'
-  },
-  'RockShox SID Ultimate (35mm)': {
-    brand: 'RockShox',
-    model: 'SID Ultimate (35mm)',
-    travel_mm: 120, // Standard for "Downcountry"
-    stanchion_diameter_mm: 35,
-    air_chamber_volume_cc: 360, // Approximate, similar to a Pike but lighter tune
-    max_pressure_psi: 260,
-    recommended_sag_percent: 20,
-    spring_curve: 'progressive'
-  },
-  'RockShox Pike Ultimate': {
-    brand: 'RockShox',
-    model: 'Pike Ultimate',
-    travel_mm: 140, // Common for Trail, typically 120-150mm
-    stanchion_diameter_mm: 35,
-    air_chamber_volume_cc: 380, // Approximate
-    max_pressure_psi: 279, // Varies by Charger damper version
-    recommended_sag_percent: 20,
-    spring_curve: 'progressive'
-  },
-  'RockShox Lyrik Ultimate': {
-    brand: 'RockShox',
-    model: 'Lyrik Ultimate',
-    travel_mm: 160, // Common for Enduro, typically 150-180mm
-    stanchion_diameter_mm: 35,
-    air_chamber_volume_cc: 420, // Approximate
-    max_pressure_psi: 279,
-    recommended_sag_percent: 20,
-    spring_curve: 'progressive'
-  },
-  'RockShox ZEB Ultimate': {
-    brand: 'RockShox',
-    model: 'ZEB Ultimate',
-    travel_mm: 170, // Common for Enduro, typically 160-190mm
-    stanchion_diameter_mm: 38,
-    air_chamber_volume_cc: 480, // Approximate, larger volume than Lyrik
-    max_pressure_psi: 270,
-    recommended_sag_percent: 20,
-    spring_curve: 'progressive'
-  },
-  'RockShox BoXXer Ultimate': {
-    brand: 'RockShox',
-    model: 'BoXXer Ultimate',
-    travel_mm: 200, // Standard DH travel
-    stanchion_diameter_mm: 38, // Newer models, older were 35mm
-    air_chamber_volume_cc: 520, // Approximate
-    max_pressure_psi: 250,
-    recommended_sag_percent: 25,
-    spring_curve: 'progressive'
-  },
-
-  // --- MARZOCCHI ---
-  'Marzocchi Bomber Z2': {
-    brand: 'Marzocchi',
-    model: 'Bomber Z2',
-    travel_mm: 140, // Common for Trail, range 100-150mm
-    stanchion_diameter_mm: 34,
-    air_chamber_volume_cc: 360, // Approximate, based on Fox 34 chassis
-    max_pressure_psi: 140, // Rail Damper
-    recommended_sag_percent: 20,
-    spring_curve: 'progressive'
-  },
-  'Marzocchi Bomber Z1': {
-    brand: 'Marzocchi',
-    model: 'Bomber Z1',
-    travel_mm: 170, // Common for Enduro, range 150-180mm
-    stanchion_diameter_mm: 36,
-    air_chamber_volume_cc: 415, // Approximate, based on Fox 36 chassis
-    max_pressure_psi: 140, // GRIP Damper
-    recommended_sag_percent: 20,
-    spring_curve: 'progressive'
-  },
-  'Marzocchi Bomber 58': {
-    brand: 'Marzocchi',
-    model: 'Bomber 58',
-    travel_mm: 203, // Standard DH travel
-    stanchion_diameter_mm: 40,
-    air_chamber_volume_cc: 550, // Approximate, based on Fox 40 chassis
-    max_pressure_psi: 140,
-    recommended_sag_percent: 25,
-    spring_curve: 'progressive'
-  },
-
-  // --- ÖHLINS ---
-  'Öhlins RXF36 M.2 Air': {
-    brand: 'Öhlins',
-    model: 'RXF36 M.2 Air',
-    travel_mm: 160, // Common for Trail/Enduro, range 120-170mm
-    stanchion_diameter_mm: 36,
-    air_chamber_volume_cc: 400, // Approximate, has unique 3-chamber air spring
-    max_pressure_psi: 175,
-    recommended_sag_percent: 20,
-    spring_curve: 'progressive'
-  },
-  'Öhlins RXF38 M.2 Air': {
-    brand: 'Öhlins',
-    model: 'RXF38 M.2 Air',
-    travel_mm: 170, // Common for Enduro, range 160-180mm
-    stanchion_diameter_mm: 38,
-    air_chamber_volume_cc: 470, // Approximate, has unique 3-chamber air spring
-    max_pressure_psi: 175,
-    recommended_sag_percent: 20,
-    spring_curve: 'progressive'
-  },
-  'Öhlins DH38 M.1 Air': {
-    brand: 'Öhlins',
-    model: 'DH38 M.1 Air',
-    travel_mm: 200, // Standard DH travel
-    stanchion_diameter_mm: 38,
-    air_chamber_volume_cc: 530, // Approximate
-    max_pressure_psi: 175,
-    recommended_sag_percent: 25,
-    spring_curve: 'progressive'
-  },
-  
-  // --- CANE CREEK ---
-  'Cane Creek Helm MKII Air': {
-    brand: 'Cane Creek',
-    model: 'Helm MKII Air',
-    travel_mm: 160, // Internally adjustable from 130-160mm
-    stanchion_diameter_mm: 35,
-    air_chamber_volume_cc: 400, // Approximate, has independent pos/neg chambers
-    max_pressure_psi: 150,
-    recommended_sag_percent: 20,
-    spring_curve: 'progressive'
-  },
-
-  // --- DVO ---
-  'DVO Sapphire D1': {
-    brand: 'DVO',
-    model: 'Sapphire D1',
-    travel_mm: 140, // Internally adjustable from 120-150mm
-    stanchion_diameter_mm: 34,
-    air_chamber_volume_cc: 370, // Approximate
-    max_pressure_psi: 180,
-    recommended_sag_percent: 20,
-    spring_curve: 'progressive' // OTT (Off The Top) adjustment
-  },
-  'DVO Onyx SC D1': {
-    brand: 'DVO',
-    model: 'Onyx SC D1',
-    travel_mm: 170, // Internally adjustable from 160-180mm
-    stanchion_diameter_mm: 36,
-    air_chamber_volume_cc: 430, // Approximate
-    max_pressure_psi: 180,
-    recommended_sag_percent: 20,
-    spring_curve: 'progressive' // OTT (Off The Top) adjustment
-  },
-
-  // --- MANITOU ---
-  'Manitou Mattoc Pro': {
-    brand: 'Manitou',
-    model: 'Mattoc Pro',
-    travel_mm: 140, // Adjustable 110-150mm
-    stanchion_diameter_mm: 34,
-    air_chamber_volume_cc: 400, // Approximate, low-pressure system implies larger volume
-    max_pressure_psi: 120, // Dorado Air is a low-pressure system
-    recommended_sag_percent: 20,
-    spring_curve: 'progressive'
-  },
-  'Manitou Mezzer Pro': {
-    brand: 'Manitou',
-    model: 'Mezzer Pro',
-    travel_mm: 160, // Adjustable 140-180mm
-    stanchion_diameter_mm: 37,
-    air_chamber_volume_cc: 500, // Approximate, low-pressure system implies larger volume
-    max_pressure_psi: 120, // Dorado Air is a low-pressure system
-    recommended_sag_percent: 20,
-    spring_curve: 'progressive'
-  }
-}
-
-// NOTE: This database provides approximate and default values for common shock configurations.
-// - `travel_mm` represents the shock's STROKE length (e.g., 65mm), NOT the bike's rear wheel travel.
-// - `stanchion_diameter_mm` for shocks represents the DAMPER SHAFT diameter.
-// - `air_chamber_volume_cc` is an ESTIMATED value based on the shock's intended use, physical size, and stroke. It's a baseline for calculations and is heavily influenced by volume spacers.
-// - Coil shocks are included with `air_chamber_volume_cc` and `max_pressure_psi` set to 0, and `spring_curve` set to 'coil'.
-
-export const SHOCK_DATABASE: Record<string, SuspensionSpecs> = {
-  // --- FOX (Air Shocks) ---
-  'Fox Float SL': {
-    brand: 'Fox',
-    model: 'Float SL',
-    travel_mm: 45, // Common XC stroke (e.g., 190x45mm)
-    stanchion_diameter_mm: 9, // Damper shaft diameter
-    air_chamber_volume_cc: 140, // Approximate, small volume XC shock
-    max_pressure_psi: 350,
-    recommended_sag_percent: 25,
-    spring_curve: 'linear'
-  },
-  'Fox Float DPS': {
-    brand: 'Fox',
-    model: 'Float DPS',
-    travel_mm: 50, // Common Trail stroke (e.g., 210x50mm)
-    stanchion_diameter_mm: 9, // Damper shaft diameter
-    air_chamber_volume_cc: 160, // Approximate, standard volume can
-    max_pressure_psi: 350,
-    recommended_sag_percent: 25,
-    spring_curve: 'progressive'
-  },
-  'Fox Float X': {
-    brand: 'Fox',
-    model: 'Float X',
-    travel_mm: 55, // Common Trail/All-Mountain stroke (e.g., 210x55mm)
-    stanchion_diameter_mm: 12.7, // 1/2 inch damper shaft
-    air_chamber_volume_cc: 220, // Approximate, larger piggyback volume
-    max_pressure_psi: 350,
-    recommended_sag_percent: 30,
-    spring_curve: 'progressive'
-  },
-  'Fox Float X2': {
-    brand: 'Fox',
-    model: 'Float X2',
-    travel_mm: 65, // Common Enduro/DH stroke (e.g., 230x65mm)
-    stanchion_diameter_mm: 9, // Damper shaft diameter
-    air_chamber_volume_cc: 280, // Approximate, high volume
-    max_pressure_psi: 300, // Note: Lower max PSI than other Fox shocks
-    recommended_sag_percent: 30,
-    spring_curve: 'progressive'
-  },
-
-  // --- ROCKSHOX (Air Shocks) ---
-  'RockShox SIDLuxe Ultimate': {
-    brand: 'RockShox',
-    model: 'SIDLuxe Ultimate',
-    travel_mm: 45, // Common XC stroke (e.g., 190x45mm)
-    stanchion_diameter_mm: 10, // Damper shaft diameter
-    air_chamber_volume_cc: 150, // Approximate, XC-focused volume
-    max_pressure_psi: 325,
-    recommended_sag_percent: 25,
-    spring_curve: 'linear'
-  },
-  'RockShox Deluxe Ultimate': {
-    brand: 'RockShox',
-    model: 'Deluxe Ultimate',
-    travel_mm: 50, // Common Trail stroke (e.g., 210x50mm)
-    stanchion_diameter_mm: 10, // Damper shaft diameter
-    air_chamber_volume_cc: 170, // Approximate
-    max_pressure_psi: 325,
-    recommended_sag_percent: 30,
-    spring_curve: 'progressive'
-  },
-  'RockShox Super Deluxe Ultimate': {
-    brand: 'RockShox',
-    model: 'Super Deluxe Ultimate',
-    travel_mm: 65, // Common Enduro stroke (e.g., 230x65mm)
-    stanchion_diameter_mm: 10, // Damper shaft diameter
-    air_chamber_volume_cc: 270, // Approximate, can be tuned with DebonAir/MegNeg
-    max_pressure_psi: 325,
-    recommended_sag_percent: 30,
-    spring_curve: 'progressive'
-  },
-  'RockShox Vivid Ultimate': {
-    brand: 'RockShox',
-    model: 'Vivid Ultimate',
-    travel_mm: 65, // Common Enduro/DH stroke
-    stanchion_diameter_mm: 10, // Damper shaft diameter
-    air_chamber_volume_cc: 320, // Approximate, very large volume, coil-like feel
-    max_pressure_psi: 275,
-    recommended_sag_percent: 35,
-    spring_curve: 'progressive'
-  },
-  
-  // --- MARZOCCHI ---
-  'Marzocchi Bomber Air': {
-    brand: 'Marzocchi',
-    model: 'Bomber Air',
-    travel_mm: 55, // Common Trail/All-Mountain stroke
-    stanchion_diameter_mm: 12.7, // Damper shaft, based on Fox Float X chassis
-    air_chamber_volume_cc: 225, // Approximate, similar to Float X
-    max_pressure_psi: 350,
-    recommended_sag_percent: 30,
-    spring_curve: 'progressive'
-  },
-  
-  // --- ÖHLINS ---
-  'Öhlins TTXAir 2': {
-    brand: 'Öhlins',
-    model: 'TTXAir 2',
-    travel_mm: 60, // Common Enduro stroke
-    stanchion_diameter_mm: 12.7, // Damper shaft diameter
-    air_chamber_volume_cc: 250, // Approximate
-    max_pressure_psi: 300,
-    recommended_sag_percent: 30,
-    spring_curve: 'progressive'
-  },
-  
-  // --- CANE CREEK ---
-  'Cane Creek Kitsuma Air': {
-    brand: 'Cane Creek',
-    model: 'Kitsuma Air',
-    travel_mm: 65, // Common Enduro stroke
-    stanchion_diameter_mm: 9.5, // Damper shaft diameter
-    air_chamber_volume_cc: 290, // Approximate, high volume
-    max_pressure_psi: 300,
-    recommended_sag_percent: 30,
-    spring_curve: 'progressive'
-  },
-  
-  // --- DVO ---
-  'DVO Topaz 2': {
-    brand: 'DVO',
-    model: 'Topaz 2',
-    travel_mm: 55, // Common Trail/All-Mountain stroke
-    stanchion_diameter_mm: 10, // Damper shaft diameter
-    air_chamber_volume_cc: 240, // Approximate, has bladder instead of IFP
-    max_pressure_psi: 300,
-    recommended_sag_percent: 30,
-    spring_curve: 'progressive'
-  },
-  
-  // --- MANITOU ---
-  'Manitou Mara Pro': {
-    brand: 'Manitou',
-    model: 'Mara Pro',
-    travel_mm: 55, // Common Trail/All-Mountain stroke
-    stanchion_diameter_mm: 12.7, // Damper shaft diameter
-    air_chamber_volume_cc: 260, // Approximate, known for large volume
-    max_pressure_psi: 300,
-    recommended_sag_percent: 30,
-    spring_curve: 'progressive'
-  },
-  
-  // --- COIL SHOCKS (Example Entries) ---
-  'Fox DHX2': {
-    brand: 'Fox',
-    model: 'DHX2',
-    travel_mm: 65, // Common Enduro/DH stroke
-    stanchion_diameter_mm: 9, // Damper shaft diameter
-    air_chamber_volume_cc: 0, // Not an air shock
-    max_pressure_psi: 0, // Not an air shock
-    recommended_sag_percent: 30,
-    spring_curve: 'progressive'
-  },
-  'RockShox Super Deluxe Coil Ultimate': {
-    brand: 'RockShox',
-    model: 'Super Deluxe Coil Ultimate',
-    travel_mm: 65, // Common Enduro/DH stroke
-    stanchion_diameter_mm: 10, // Damper shaft diameter
-    air_chamber_volume_cc: 0, // Not an air shock
-    max_pressure_psi: 0, // Not an air shock
-    recommended_sag_percent: 30,
-    spring_curve: 'progressive'
-  },
-  'Öhlins TTX22m.2': {
-    brand: 'Öhlins',
-    model: 'TTX22m.2',
-    travel_mm: 65, // Common Enduro/DH stroke
-    stanchion_diameter_mm: 12.7, // Damper shaft diameter
-    air_chamber_volume_cc: 0, // Not an air shock
-    max_pressure_psi: 0, // Not an air shock
-    recommended_sag_percent: 30,
-    spring_curve: 'progressive'
-  }
-}
-
-export function getShockSpecs(brand: string, model: string, travel?: number): SuspensionSpecs | null {
-  const key = `${brand} ${model}`
-  const shock = SHOCK_DATABASE[key]
-  
-  if (shock && travel) {
-    return {
-      ...shock,
-      travel_mm: travel
-    }
-  }
-  
-  return shock || null
+export function isCoilSpring(specs: SuspensionSpecs): boolean {
+  return specs.spring_curve === 'coil'
 }
 
 export function calculateSuspensionSetup(inputs: SuspensionCalculationInputs): SuspensionResult {
-  const { riderWeightLbs, gearWeightLbs, forkSpecs, shockSpecs, ridingStyle, targetSagPercent } = inputs
+  const { riderWeightLbs, gearWeightLbs, forkSpecs, shockSpecs, ridingStyle, targetSagPercent, units = DEFAULT_UNIT_PREFERENCES } = inputs
   const totalWeight = riderWeightLbs + gearWeightLbs
+  // What the spring actually feels. Riding position and seal friction differ from rider
+  // to rider; measured sag tells us by how much.
+  const sagBias = inputs.sagBias ?? 1
+  const effectiveWeight = totalWeight * sagBias
+  const pressure = (psi: number) => formatPressure(psi, units.pressure)
+  const mass = (lbs: number) => formatMass(lbs, units.mass)
 
   // Use either fork or shock specs
   const suspensionSpecs = forkSpecs || shockSpecs
@@ -551,81 +163,231 @@ export function calculateSuspensionSetup(inputs: SuspensionCalculationInputs): S
   }
 
   const notes: string[] = []
-  
-  // Get the base pressure ratio for this stanchion size
+  const componentType: SuspensionType = forkSpecs ? 'fork' : 'shock'
   const stanchionSize = suspensionSpecs.stanchion_diameter_mm
-  const basePressureRatio = SUSPENSION_CONSTANTS.BASE_PRESSURE_RATIOS[stanchionSize as keyof typeof SUSPENSION_CONSTANTS.BASE_PRESSURE_RATIOS] || 1.5
-  
-  // Get travel factor
-  const travelFactor = SUSPENSION_CONSTANTS.TRAVEL_FACTORS[suspensionSpecs.travel_mm as keyof typeof SUSPENSION_CONSTANTS.TRAVEL_FACTORS] || 1.0
-  
-  // Get riding style factor
-  const styleFactor = SUSPENSION_CONSTANTS.RIDING_STYLE_FACTORS[ridingStyle] || 1.0
-  
-  // Calculate base pressure
-  let airPressure = totalWeight * basePressureRatio * travelFactor * styleFactor
-  
-  // Apply sag adjustments if custom target provided
+  const frame = componentType === 'shock' ? inputs.frameKinematics : undefined
   const targetSag = targetSagPercent || SUSPENSION_CONSTANTS.TARGET_SAG[ridingStyle] || 25
-  const sagAdjustment = 25 / targetSag // Normalize to 25% baseline
-  airPressure *= sagAdjustment
 
-  // Ensure we don't exceed max pressure
-  if (airPressure > suspensionSpecs.max_pressure_psi) {
-    notes.push(`Pressure capped at ${suspensionSpecs.max_pressure_psi} PSI (manufacturer limit)`)
-    airPressure = suspensionSpecs.max_pressure_psi
+  // Damper baselines from the catalog; rough rebound estimate for unknown dampers
+  const damperSettings = recommendDamperSettings(suspensionSpecs.damper, totalWeight, ridingStyle)
+  const damping = damperSettings
+    ? {
+        reboundClicks: damperSettings.adjusters.lsr?.clicksFromClosed ?? 0,
+        compressionClicks: damperSettings.adjusters.lsc?.clicksFromClosed,
+        damperSettings
+      }
+    : { reboundClicks: Math.max(1, Math.min(20, Math.round(8 + (totalWeight - 160) / 20))) }
+  if (damperSettings) {
+    notes.push(`${damperSettings.damper} baseline for ${mass(totalWeight)}, ${ridingStyle} riding - adjust 1-2 clicks at a time`)
+  }
+  if (sagBias !== 1) {
+    notes.push(`Adjusted by ${sagBias > 1 ? '+' : ''}${Math.round((sagBias - 1) * 100)}% from your measured sag history`)
   }
 
-  // Ensure minimum pressure for safety
-  const minPressure = Math.max(40, totalWeight * 0.8)
-  if (airPressure < minPressure) {
-    notes.push(`Pressure increased to ${minPressure} PSI minimum for safety`)
-    airPressure = minPressure
+  // Determine accuracy based on available data. Only a manufacturer chart is 'high'.
+  let accuracy: 'high' | 'medium' | 'low' = 'medium'
+  if (!suspensionSpecs.stanchion_diameter_mm || !suspensionSpecs.travel_mm) {
+    accuracy = 'low'
+  }
+
+  // Manufacturer chart, when there is one, takes priority over the models below
+  const chart = suspensionSpecs.baseline_pressure_chart?.length
+    ? readPressureChart(suspensionSpecs.baseline_pressure_chart, effectiveWeight, targetSag)
+    : null
+  if (chart) {
+    accuracy = chart.weight.inRange ? 'high' : 'medium'
+  }
+  // Without catalog specs the spring model runs on guesses; a chart still reads true
+  if (suspensionSpecs.estimated) {
+    accuracy = chart ? 'medium' : 'low'
+    notes.push(`${suspensionSpecs.brand} ${suspensionSpecs.model} isn't in our catalog yet - specs are estimated, so treat this as a starting point`)
+  }
+  const chartNote = (reading: PressureChartReading) => {
+    const source = suspensionSpecs.baseline_pressure_chart_source ?? `${suspensionSpecs.brand} ${suspensionSpecs.model} manufacturer pressure chart`
+    const range = reading.weight.inRange ? '' : ` (your weight is outside its ${mass(reading.weight.min)}-${mass(reading.weight.max)} range, so the nearest row is used)`
+    // The chart is read at the sag-adjusted weight, so that is the weight reported
+    const weight = sagBias !== 1 ? `${mass(effectiveWeight)} (sag-adjusted from ${mass(totalWeight)})` : mass(totalWeight)
+    return `From the ${source}: ${pressure(reading.pressurePsi)} at ${reading.sagPercent}% sag for ${weight}${range}`
+  }
+
+  // The frame decides the shock stroke; a shock spec only describes a common size
+  const specs = frame ? { ...suspensionSpecs, travel_mm: frame.shockStrokeMm } : suspensionSpecs
+  const sagMm = specs.travel_mm * targetSag / 100
+
+  // Rear shocks carry the rear wheel load multiplied by the leverage ratio at sag
+  let leverageRatio: number | undefined
+  if (componentType === 'shock') {
+    if (frame) {
+      leverageRatio = leverageRatioAt(frame, targetSag)
+      notes.push(`${frameKey(frame)}: ${frame.wheelTravelMm}mm travel on a ${frame.shockEyeToEyeMm}x${frame.shockStrokeMm}mm shock, ${leverageRatio.toFixed(2)}:1 leverage at sag, ${Math.round(leverageProgression(frame))}% progression`)
+      if (suspensionSpecs.travel_mm !== frame.shockStrokeMm) {
+        notes.push(`Using the frame's ${frame.shockStrokeMm}mm shock stroke instead of the ${suspensionSpecs.travel_mm}mm listed for this shock`)
+      }
+    } else if (inputs.rearWheelTravelMm) {
+      leverageRatio = inputs.rearWheelTravelMm / specs.travel_mm
+      notes.push(`Average leverage ratio ${leverageRatio.toFixed(2)}:1 from ${inputs.rearWheelTravelMm}mm travel and ${specs.travel_mm}mm stroke. Select your frame for its full leverage curve.`)
+    } else {
+      leverageRatio = SUSPENSION_CONSTANTS.DEFAULT_LEVERAGE_RATIO
+      notes.push(`Assumes a ${leverageRatio}:1 leverage ratio; select your frame or enter your rear wheel travel for a better estimate`)
+    }
+  }
+  // A chart already gives shock pressure, so only the models depend on the leverage guess
+  if (componentType === 'shock' && !frame && !inputs.rearWheelTravelMm && !chart) {
+    accuracy = 'low'
+  }
+  const axialLoad = componentType === 'fork'
+    ? effectiveWeight * SUSPENSION_CONSTANTS.SAG_FRONT_LOAD_SHARE * SUSPENSION_CONSTANTS.FORK_AXIAL_LOAD_FACTOR
+    : effectiveWeight * (1 - SUSPENSION_CONSTANTS.SAG_FRONT_LOAD_SHARE) * (leverageRatio ?? SUSPENSION_CONSTANTS.DEFAULT_LEVERAGE_RATIO)
+
+  // Coil forks and shocks: spring rate that holds the load at the sag distance
+  if (isCoilSpring(specs)) {
+    const coilSpring = selectCoilSpring(componentType, axialLoad, specs.travel_mm, targetSag)
+    const { selected, softer, firmer } = coilSpring
+    const sagOf = (option: typeof selected) => `${option.rateLbsIn} lbs/in gives ${option.sagPercent.toFixed(0)}% sag`
+    notes.push(`Target sag: ${targetSag}% (${sagMm.toFixed(1)}mm of ${componentType === 'shock' ? 'shock stroke' : 'travel'})`)
+    notes.push(`Required spring rate: ${Math.round(coilSpring.requiredRateLbsIn)} lbs/in (${coilSpring.requiredRateNmm.toFixed(1)} N/mm)`)
+    notes.push(`Nearest spring: ${selected.rateLbsIn} lbs/in (${selected.rateNmm.toFixed(1)} N/mm) for ${selected.sagPercent.toFixed(0)}% sag (${selected.sagMm.toFixed(1)}mm)`)
+    if (softer || firmer) {
+      notes.push(`Next sizes: ${[softer, firmer].filter(option => option !== undefined).map(option => sagOf(option)).join('; ')}`)
+    }
+    notes.push('Use no more than 1-2 turns of preload; change the spring rather than adding preload to fix sag')
+    if (Math.abs(selected.sagPercent - targetSag) > 3) {
+      notes.push('No catalog spring lands within 3% of the target sag - consider a progressive or adjustable spring (e.g. Sprindex)')
+    }
+    return {
+      airPressure: 0,
+      targetSag,
+      ...damping,
+      springRate: selected.rateLbsIn,
+      coilSpring,
+      leverageRatio,
+      notes,
+      accuracy
+    }
+  }
+
+  // Air-spring model when the chamber volume is known (or can be estimated for shocks)
+  const maxSpacers = maxVolumeSpacers(specs, componentType)
+  const recommendedVolumeSpacers = Math.min(SUSPENSION_CONSTANTS.RECOMMENDED_VOLUME_SPACERS[componentType][ridingStyle], maxSpacers)
+  const volumeSpacers = Math.min(Math.max(0, Math.round(inputs.volumeSpacers ?? recommendedVolumeSpacers)), maxSpacers)
+  const airSpring = getAirSpringConfig(specs, componentType, volumeSpacers)
+
+  if (airSpring) {
+    const modelPressure = solvePressureForSag(airSpring, axialLoad, sagMm)
+    let airPressure = modelPressure
+    if (chart) {
+      airPressure = convertPressureForSag(airSpring, chart.pressurePsi, specs.travel_mm * chart.sagPercent / 100, sagMm)
+      notes.push(chartNote(chart))
+      if (chart.sagPercent !== targetSag) {
+        notes.push(`Converted from the chart's ${chart.sagPercent}% sag to your ${targetSag}% target with the air-spring model`)
+      }
+      notes.push(`The air-spring model alone gives ${pressure(modelPressure)}`)
+    }
+    if (airPressure > suspensionSpecs.max_pressure_psi) {
+      notes.push(`Pressure capped at ${pressure(suspensionSpecs.max_pressure_psi)} (manufacturer limit) - sag will be more than ${targetSag}%. Consider a firmer spring or fewer spacers.`)
+      airPressure = suspensionSpecs.max_pressure_psi
+    }
+    airPressure = Math.round(airPressure)
+
+    const springCurve = buildSpringCurve(airSpring, airPressure)
+    const sagForce = springCurve.find(point => point.travelPercent >= targetSag)?.forceLbs ?? axialLoad
+    const bottomOutForce = springCurve[springCurve.length - 1].forceLbs
+
+    notes.push(`Air-spring model: ${Math.round(airSpring.positiveVolumeCc)}cc positive / ${Math.round(airSpring.negativeVolumeCc)}cc negative chamber, ${volumeSpacers} volume spacer${volumeSpacers === 1 ? '' : 's'}`)
+    notes.push(`Target sag: ${targetSag}% (${Math.round(sagMm)}mm)`)
+    notes.push(`Ramp-up: the spring is ${(bottomOutForce / sagForce).toFixed(1)}x stiffer at bottom-out than at sag`)
+    if (inputs.volumeSpacers !== undefined && inputs.volumeSpacers > maxSpacers) {
+      notes.push(`Limited to ${maxSpacers} volume spacers - more would stop you reaching full travel`)
+    }
+    if (volumeSpacers !== recommendedVolumeSpacers) {
+      notes.push(`${recommendedVolumeSpacers} volume spacer${recommendedVolumeSpacers === 1 ? '' : 's'} recommended for ${ridingStyle} riding`)
+    }
+    if (airSpring.estimatedVolume) {
+      notes.push(`Air volume estimated from the ${specs.travel_mm}mm stroke`)
+    }
+
+    return {
+      airPressure,
+      targetSag,
+      ...damping,
+      volumeSpacers,
+      recommendedVolumeSpacers,
+      springCurve,
+      leverageRatio,
+      notes,
+      accuracy
+    }
+  }
+
+  // Fallback without an air-spring model: the manufacturer chart, or lookup factors
+  // from stanchion size and travel
+  let airPressure: number
+  if (chart) {
+    // No model to convert between sag targets, so treat pressure as inversely proportional to sag
+    airPressure = chart.pressurePsi * chart.sagPercent / targetSag
+    notes.push(chartNote(chart))
+    if (chart.sagPercent !== targetSag) {
+      notes.push(`Scaled from the chart's ${chart.sagPercent}% sag to your ${targetSag}% target`)
+    }
+    if (airPressure > suspensionSpecs.max_pressure_psi) {
+      notes.push(`Pressure capped at ${pressure(suspensionSpecs.max_pressure_psi)} (manufacturer limit)`)
+      airPressure = suspensionSpecs.max_pressure_psi
+    }
+  } else {
+    // Get the base pressure ratio for this stanchion size, interpolated between table entries
+    const basePressureRatio = interpolate(SUSPENSION_CONSTANTS.BASE_PRESSURE_RATIOS, stanchionSize)
+    if (!basePressureRatio.inRange) {
+      notes.push(`${stanchionSize}mm is outside the ${basePressureRatio.min}-${basePressureRatio.max}mm stanchion range we have data for; using the ${stanchionSize < basePressureRatio.min ? basePressureRatio.min : basePressureRatio.max}mm value`)
+    }
+
+    // Get travel factor
+    const travelFactor = interpolate(SUSPENSION_CONSTANTS.TRAVEL_FACTORS, suspensionSpecs.travel_mm)
+    if (!travelFactor.inRange) {
+      notes.push(`${suspensionSpecs.travel_mm}mm travel is outside the ${travelFactor.min}-${travelFactor.max}mm range we have data for; using the ${suspensionSpecs.travel_mm < travelFactor.min ? travelFactor.min : travelFactor.max}mm value`)
+    }
+
+    if (!basePressureRatio.inRange || !travelFactor.inRange) {
+      accuracy = 'low'
+    }
+
+    // Get riding style factor
+    const styleFactor = SUSPENSION_CONSTANTS.RIDING_STYLE_FACTORS[ridingStyle] || 1.0
+
+    // Calculate base pressure
+    airPressure = effectiveWeight * basePressureRatio.value * travelFactor.value * styleFactor
+
+    // Apply sag adjustments if custom target provided
+    const sagAdjustment = 25 / targetSag // Normalize to 25% baseline
+    airPressure *= sagAdjustment
+
+    // Ensure we don't exceed max pressure
+    if (airPressure > suspensionSpecs.max_pressure_psi) {
+      notes.push(`Pressure capped at ${pressure(suspensionSpecs.max_pressure_psi)} (manufacturer limit)`)
+      airPressure = suspensionSpecs.max_pressure_psi
+    }
+
+    // Ensure minimum pressure for safety
+    const minPressure = Math.max(40, effectiveWeight * 0.8)
+    if (airPressure < minPressure) {
+      notes.push(`Pressure increased to ${pressure(minPressure)} minimum for safety`)
+      airPressure = minPressure
+    }
+
+    notes.push(`Based on ${stanchionSize}mm ${componentType} and ${suspensionSpecs.travel_mm}mm travel`)
   }
 
-  // Calculate rebound clicks (rough estimate)
-  const reboundClicks = Math.round(8 + (totalWeight - 160) / 20)
-  
   // Add helpful notes
-  const componentType = shockSpecs ? 'shock' : 'fork'
-  notes.push(`Based on ${stanchionSize}mm ${componentType} and ${suspensionSpecs.travel_mm}mm travel`)
   notes.push(`Target sag: ${targetSag}% (${Math.round(suspensionSpecs.travel_mm * targetSag / 100)}mm)`)
   
   if (suspensionSpecs.spring_curve === 'progressive') {
     notes.push('Progressive spring curve - may feel more linear as you add pressure')
   }
 
-  // Determine accuracy based on available data
-  let accuracy: 'high' | 'medium' | 'low' = 'medium'
-  if (suspensionSpecs.air_chamber_volume_cc && suspensionSpecs.baseline_pressure_chart) {
-    accuracy = 'high'
-  } else if (suspensionSpecs.stanchion_diameter_mm && suspensionSpecs.travel_mm) {
-    accuracy = 'medium'
-  } else {
-    accuracy = 'low'
-  }
-
   return {
     airPressure: Math.round(airPressure),
     targetSag,
-    reboundClicks: Math.max(1, Math.min(20, reboundClicks)),
+    ...damping,
     notes,
     accuracy
   }
 }
-
-// Helper function to get fork specs from your database
-export function getForkSpecs(brand: string, model: string, travel?: number): SuspensionSpecs | null {
-  const key = `${brand} ${model}`
-  const specs = FORK_DATABASE[key]
-  
-  if (specs && travel && travel !== specs.travel_mm) {
-    // Adjust for different travel if specified
-    return {
-      ...specs,
-      travel_mm: travel
-    }
-  }
-  
-  return specs || null
-}
\ No newline at end of file
@@ -0,0 +1,154 @@
+// FILE: src/lib/tire-geometry.ts
+
+// Geometric tire/rim model. The inflated tire cross-section is treated as a circular
+// arc running from bead seat to bead seat. The arc length (the casing "circumference"
+// between the beads) is fixed by the tire's construction, so mounting the same tire
+// on a wider rim opens the arc up: it gets wider and slightly lower.
+
+import { DEFAULT_UNIT_PREFERENCES, LengthUnit, formatLength } from './units';
+
+// --- Constants ---
+
+// ETRTO nominal widths are measured on a reference rim. These are the internal widths
+// manufacturers use for each tire-width class (approximate, per ETRTO guidance).
+const ETRTO_REFERENCE_RIM_WIDTH = [
+  { maxTireWidthMm: 25, rimWidthMm: 15 },
+  { maxTireWidthMm: 32, rimWidthMm: 19 },
+  { maxTireWidthMm: 50, rimWidthMm: 21 },
+  { maxTireWidthMm: 62, rimWidthMm: 25 },
+  { maxTireWidthMm: Infinity, rimWidthMm: 30 },
+];
+
+// Approximate ETRTO recommended tire widths for a given internal rim width.
+// Values between rows are interpolated.
+const ETRTO_RIM_TIRE_RANGES = [
+  { rimWidthMm: 13, minTireMm: 18, maxTireMm: 25 },
+  { rimWidthMm: 15, minTireMm: 20, maxTireMm: 32 },
+  { rimWidthMm: 17, minTireMm: 23, maxTireMm: 42 },
+  { rimWidthMm: 19, minTireMm: 25, maxTireMm: 50 },
+  { rimWidthMm: 21, minTireMm: 26, maxTireMm: 62 },
+  { rimWidthMm: 23, minTireMm: 28, maxTireMm: 64 },
+  { rimWidthMm: 25, minTireMm: 28, maxTireMm: 70 },
+  { rimWidthMm: 30, minTireMm: 35, maxTireMm: 76 },
+  { rimWidthMm: 35, minTireMm: 45, maxTireMm: 90 },
+  { rimWidthMm: 45, minTireMm: 65, maxTireMm: 110 },
+  { rimWidthMm: 65, minTireMm: 90, maxTireMm: 125 },
+];
+
+// --- Interfaces ---
+
+export interface TireGeometryInputs {
+  nominalTireWidthMm: number;
+  rimWidthMm: number;       // Internal (bead-seat to bead-seat) width
+  beadSeatDiameterMm: number;
+  lengthUnit?: LengthUnit;  // Unit used in warnings; all outputs are millimetres
+}
+
+export interface TireGeometry {
+  inflatedWidthMm: number;
+  tireHeightMm: number;           // Bead seat to top of the tread
+  casingCircumferenceMm: number;  // Arc length from bead to bead
+  outerDiameterMm: number;
+  rollingCircumferenceMm: number;
+  referenceRimWidthMm: number;
+  recommendedTireRangeMm: { min: number; max: number };
+  warnings: string[];
+}
+
+// --- Helper Functions ---
+
+// Interpolates the ETRTO range table, holding the end rows flat outside it.
+function interpolateTireRange(rimWidthMm: number, field: 'minTireMm' | 'maxTireMm'): number {
+  const rows = ETRTO_RIM_TIRE_RANGES;
+  if (rimWidthMm <= rows[0].rimWidthMm) return rows[0][field];
+  const last = rows[rows.length - 1];
+  if (rimWidthMm >= last.rimWidthMm) return last[field];
+
+  const upperIndex = rows.findIndex(row => row.rimWidthMm >= rimWidthMm);
+  const lower = rows[upperIndex - 1];
+  const upper = rows[upperIndex];
+  const t = (rimWidthMm - lower.rimWidthMm) / (upper.rimWidthMm - lower.rimWidthMm);
+  return lower[field] + t * (upper[field] - lower[field]);
+}
+
+// Solve theta / sin(theta) = ratio for theta in (0, PI) by bisection.
+// theta is the half-angle of the casing arc; the function is monotonic on that interval.
+function solveHalfAngle(ratio: number): number {
+  if (ratio <= 1) return 1e-6;
+  let low = 1e-6;
+  let high = Math.PI - 1e-6;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (mid / Math.sin(mid) < ratio) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+// Width and height of a circular arc with the given half-angle and chord.
+function arcProfile(halfAngle: number, chordMm: number) {
+  const radius = chordMm / (2 * Math.sin(halfAngle));
+  return {
+    widthMm: halfAngle >= Math.PI / 2 ? 2 * radius : chordMm,
+    heightMm: radius * (1 - Math.cos(halfAngle)),
+  };
+}
+
+export function getReferenceRimWidth(nominalTireWidthMm: number): number {
+  return ETRTO_REFERENCE_RIM_WIDTH.find(row => nominalTireWidthMm <= row.maxTireWidthMm)!.rimWidthMm;
+}
+
+// --- The Geometry Model ---
+
+export function calculateTireGeometry({
+  nominalTireWidthMm,
+  rimWidthMm,
+  beadSeatDiameterMm,
+  lengthUnit = DEFAULT_UNIT_PREFERENCES.length,
+}: TireGeometryInputs): TireGeometry {
+  const warnings: string[] = [];
+  const length = (mm: number) => formatLength(mm, lengthUnit);
+  const referenceRimWidthMm = getReferenceRimWidth(nominalTireWidthMm);
+
+  // On the reference rim the tire measures its nominal width, so the arc's diameter
+  // equals the nominal width. That pins down the casing length.
+  const referenceHalfAngle = Math.PI - Math.asin(Math.min(1, referenceRimWidthMm / nominalTireWidthMm));
+  const casingCircumferenceMm = nominalTireWidthMm * referenceHalfAngle;
+
+  let inflatedWidthMm: number;
+  let tireHeightMm: number;
+  if (rimWidthMm >= casingCircumferenceMm) {
+    // Physically impossible to mount; fall back to a flat profile so the maths stays finite.
+    inflatedWidthMm = rimWidthMm;
+    tireHeightMm = 0;
+  } else {
+    const halfAngle = solveHalfAngle(casingCircumferenceMm / rimWidthMm);
+    const profile = arcProfile(halfAngle, rimWidthMm);
+    inflatedWidthMm = profile.widthMm;
+    tireHeightMm = profile.heightMm;
+  }
+
+  const outerDiameterMm = beadSeatDiameterMm + 2 * tireHeightMm;
+
+  const recommendedTireRangeMm = {
+    min: Math.round(interpolateTireRange(rimWidthMm, 'minTireMm')),
+    max: Math.round(interpolateTireRange(rimWidthMm, 'maxTireMm')),
+  };
+
+  if (nominalTireWidthMm < recommendedTireRangeMm.min) {
+    warnings.push(`A ${length(nominalTireWidthMm)} tire is narrower than the ETRTO recommended minimum of ${length(recommendedTireRangeMm.min)} for a ${length(rimWidthMm)} internal rim. The tire may not seat or hold air safely, and the rim sidewalls are exposed to impacts.`);
+  } else if (nominalTireWidthMm > recommendedTireRangeMm.max) {
+    warnings.push(`A ${length(nominalTireWidthMm)} tire is wider than the ETRTO recommended maximum of ${length(recommendedTireRangeMm.max)} for a ${length(rimWidthMm)} internal rim. Expect a squirmy, lightbulb-shaped profile at low pressure.`);
+  }
+
+  return {
+    inflatedWidthMm,
+    tireHeightMm,
+    casingCircumferenceMm,
+    outerDiameterMm,
+    rollingCircumferenceMm: Math.PI * outerDiameterMm,
+    referenceRimWidthMm,
+    recommendedTireRangeMm,
+    warnings,
+  };
+}
@@ -1,67 +1,101 @@
 // FILE: src/lib/tire-pressure-logic.ts (Complete File)
 
-// --- Constants based on cycling physics principles ---
-
-// Weight distribution assumption (can be adjusted)
-const WEIGHT_DISTRIBUTION = {
-  front: 0.45, // 45% of total weight on the front wheel
-  rear: 0.55,  // 55% on the rear
-};
-
-// Target tire deflection (or "drop") as a percentage. 15% is a common starting point.
-// const TARGET_TIRE_DROP = 0.15; // Currently unused
-
-// Casing efficiency factor. Supple casings deform more easily and require less pressure.
-// These are multipliers. 1.0 is the baseline.
-const CASING_FACTOR = {
-  standard: 1.0,    // e.g., 23-60 TPI, standard vulcanized
-  supple: 0.95,     // e.g., 60-120 TPI, more advanced construction
-  'ultra-supple': 0.90, // e.g., 200+ TPI, cotton/silk, open tubular
-};
-
-// Surface type factor. Rougher surfaces require lower pressure to minimize "impedance" losses.
-const SURFACE_FACTOR = {
-  pavement: 1.0,
-  poor_pavement: 0.95,
-  mixed: 0.92,
-  gravel_hardpack: 0.85,
-  gravel_loose: 0.78,
-};
-
-// Tire type factor. Tubeless can run lower pressures safely.
-const TIRE_TYPE_FACTOR = {
-  tubetype: 1.0,
-  tubeless: 0.90,
-};
+import {
+  DEFAULT_PRESSURE_MODEL_ID,
+  PressureModelContext,
+  PressureModelId,
+  PressureModelStamp,
+  SURFACE_TYPES,
+  SurfaceType,
+  TIRE_CASINGS,
+  TireCasing,
+  TireType,
+  getPressureModel,
+  listPressureModels,
+  stampPressureModel,
+} from './pressure-models';
+import { CargoItem, WheelLoads, calculateWheelLoads } from './load-profile';
+import { RideConditions, compensatePressure, describeCompensation, hasConditionChange } from './pressure-compensation';
+import { SafetyWarning, evaluatePressureSafety, findRimSpec, findTireSpec } from './pressure-safety-rules';
+import { TireGeometry, calculateTireGeometry } from './tire-geometry';
+import { getTireSetup } from './tire-setups';
+import { DEFAULT_UNIT_PREFERENCES, MassUnit, UnitPreferences, formatLength, formatMass, formatPressure, psiToBar, toCanonical } from './units';
+import { WeightDistribution, WeightDistributionInput, resolveWeightDistribution } from './weight-distribution';
+import { WheelBsd, getRimStrikeMinimum, getWheelSize } from './wheel-sizes';
 
 // --- Interfaces ---
 
+// All numeric inputs are in canonical units (lbs, PSI, mm, and °C / m for conditions)
+// whatever the rider's preferences; pages convert with ./units before calling in.
+// `units` only changes how notes and warnings are written.
 export interface AdvancedCalculationInputs {
   riderWeightLbs: number;
   bikeWeightLbs: number;
   tireWidthMm: number;
   rimWidthMm: number;
-  wheelDiameter: '700c' | '650b' | '29er';
-  tireCasing: 'standard' | 'supple' | 'ultra-supple';
-  surfaceType: keyof typeof SURFACE_FACTOR;
-  tireType: 'tubetype' | 'tubeless';
+  wheelBsdMm: WheelBsd; // ETRTO bead-seat diameter, see WHEEL_SIZE_CATALOG
+  tireCasing: TireCasing;
+  surfaceType: SurfaceType;
+  tireType: TireType;
   isHookless: boolean;
+  pressureModel?: PressureModelId; // Defaults to DEFAULT_PRESSURE_MODEL_ID
+  weightDistribution?: WeightDistributionInput; // Measured or estimated; defaults to 45/55
+  rimModel?: string;  // `${brand} ${model}`, matched against RIM_PRESSURE_LIMITS
+  tireModel?: string; // `${brand} ${model}`, matched against TIRE_PRESSURE_LIMITS at tireWidthMm
+  rimMaxPsi?: number; // From the rim decal, if the rider knows it
+  tireMaxPsi?: number; // From the tire sidewall, if the rider knows it
+  conditions?: RideConditions; // Inflation vs. ride temperature and altitude
+  cargo?: CargoItem[]; // Bags, racks and packs, each assigned to a wheel
+  units?: UnitPreferences; // Units for notes, warnings and sweep steps; numeric fields stay canonical
 }
 
 export interface PressureResult {
   frontPsi: number;
   rearPsi: number;
-  // Kept for potential future use, but won't be displayed per request.
-  frontBar: number; 
+  // Unrounded equivalents for riders who set pressure in bar. Pages should format
+  // pressures with `formatPressure` from ./units rather than picking a field.
+  frontBar: number;
   rearBar: number;
   notes: string[];
   warnings: string[];
+  model: PressureModelStamp; // Which model (and version) produced this result
+  weightDistribution: WeightDistribution;
+  wheelLoads: WheelLoads; // Per-wheel load, with rider, bike and each cargo item broken out
+  effectiveTireWidthMm: number; // Inflated width on this rim, from the tire/rim geometry model
+  tireHeightMm: number;
+  tireGeometry: TireGeometry;
+  safetyWarnings: SafetyWarning[];
+  maxSafePsi: number | null; // Strictest limit from the safety rules, if any applied
+  // Gauge pressure to set when inflating so the tires reach frontPsi/rearPsi on the ride.
+  // Equal to frontPsi/rearPsi when no conditions were given.
+  inflationFrontPsi: number;
+  inflationRearPsi: number;
+}
+
+// Inputs a pressure sweep can vary. Everything else is held at the base inputs.
+export type SweepParameter = 'tireWidthMm' | 'riderWeightLbs' | 'surfaceType' | 'tireCasing';
+
+export interface PressureSweepPoint {
+  value: number | string; // mm, lbs, or a SurfaceType / TireCasing id
+  frontPsi: number;
+  rearPsi: number;
+  maxSafePsi: number | null;
+  hasWarnings: boolean; // Clamped to a safety limit or rim-strike floor, or outside the ETRTO range
+  isBase: boolean;      // This point matches the base inputs
+}
+
+export interface PressureSweep {
+  parameter: SweepParameter;
+  points: PressureSweepPoint[];
 }
 
 // --- Helper Functions ---
 
-const mmToInches = (mm: number) => mm / 25.4;
-const psiToBar = (psi: number) => psi / 14.5038;
+// Round to a whole PSI without rounding up past a safety limit (e.g. 72.5 -> 72, not 73).
+const roundWithinLimit = (psi: number, maxPsi: number | null) => {
+  const rounded = Math.round(psi);
+  return maxPsi !== null && rounded > maxPsi ? Math.floor(maxPsi) : rounded;
+};
 
 // --- The Core Calculation Function ---
 
@@ -71,95 +105,234 @@ export function calculateAdvancedPressure(inputs: AdvancedCalculationInputs): Pr
     bikeWeightLbs,
     tireWidthMm,
     rimWidthMm,
-    wheelDiameter,
+    wheelBsdMm,
     tireCasing,
     surfaceType,
     tireType,
     isHookless,
+    pressureModel = DEFAULT_PRESSURE_MODEL_ID,
+    weightDistribution: weightDistributionInput,
+    rimModel,
+    tireModel,
+    rimMaxPsi,
+    tireMaxPsi,
+    conditions,
+    cargo,
+    units = DEFAULT_UNIT_PREFERENCES,
   } = inputs;
 
-  const totalSystemWeightLbs = riderWeightLbs + bikeWeightLbs;
+  const pressure = (psi: number) => formatPressure(psi, units.pressure);
+  const mass = (lbs: number) => formatMass(lbs, units.mass);
+  const length = (mm: number) => formatLength(mm, units.length);
+
+  const model = getPressureModel(pressureModel);
 
   // --- Initial setup for notes and warnings ---
   const notes: string[] = [];
   const warnings: string[] = [];
   
   // Calculate load on each wheel
-  const frontLoadLbs = totalSystemWeightLbs * WEIGHT_DISTRIBUTION.front;
-  const rearLoadLbs = totalSystemWeightLbs * WEIGHT_DISTRIBUTION.rear;
-
-  // Estimate the "effective" tire width. A wider rim makes the same tire wider.
-  // This is a simplification; a more complex model would use tire/rim geometry.
-  const effectiveTireWidthMm = tireWidthMm + (rimWidthMm - 19) * 0.4;
-  const tireWidthInches = mmToInches(effectiveTireWidthMm);
-  notes.push(`With a ${rimWidthMm}mm rim, your ${tireWidthMm}mm tire has an estimated effective width of ${Math.round(effectiveTireWidthMm)}mm.`);
-
+  const weightDistribution = resolveWeightDistribution(weightDistributionInput, units.mass);
+  const wheelLoads = calculateWheelLoads(riderWeightLbs, bikeWeightLbs, weightDistribution, cargo);
+  const frontLoadLbs = wheelLoads.frontLbs;
+  const rearLoadLbs = wheelLoads.rearLbs;
+  notes.push(...weightDistribution.notes);
+  if (wheelLoads.breakdown.length > 2) {
+    const cargoLbs = wheelLoads.totalLbs - riderWeightLbs - bikeWeightLbs;
+    notes.push(`Including ${mass(cargoLbs)} of bags and cargo, the front wheel carries ${mass(frontLoadLbs)} and the rear ${mass(rearLoadLbs)}.`);
+  }
 
-  // This is the core of the physics-based model. It's a well-regarded formula
-  // derived from tire stiffness and load calculations.
-  // C is a constant (1.56) derived from testing for the 15% drop.
-  // Pressure (PSI) = (C * Load_lbs) / TireWidth_in
-  const calculateBasePsi = (loadLbs: number) => (1.56 * loadLbs) / tireWidthInches;
+  // Work out the inflated tire shape on this rim. A wider rim makes the same tire wider.
+  const tireGeometry = calculateTireGeometry({
+    nominalTireWidthMm: tireWidthMm,
+    rimWidthMm,
+    beadSeatDiameterMm: getWheelSize(wheelBsdMm).bsdMm,
+    lengthUnit: units.length,
+  });
+  const effectiveTireWidthMm = tireGeometry.inflatedWidthMm;
+  const tireHeightMm = tireGeometry.tireHeightMm;
+  notes.push(`With a ${length(rimWidthMm)} rim, your ${length(tireWidthMm)} tire inflates to an estimated ${length(effectiveTireWidthMm)} wide and ${length(tireHeightMm)} tall.`);
+  warnings.push(...tireGeometry.warnings);
 
-  const baseFrontPsi = calculateBasePsi(frontLoadLbs);
-  const baseRearPsi = calculateBasePsi(rearLoadLbs);
+  const modelContext = (loadLbs: number): PressureModelContext => ({
+    loadLbs,
+    effectiveTireWidthMm,
+    tireHeightMm,
+    tireCasing,
+    surfaceType,
+    tireType,
+  });
 
-  // Apply adjustment factors
-  const casingAdjustment = CASING_FACTOR[tireCasing];
-  const surfaceAdjustment = SURFACE_FACTOR[surfaceType];
-  const tireTypeAdjustment = TIRE_TYPE_FACTOR[tireType];
+  // Base pressure and adjustment factors come from the selected pressure model
+  const totalAdjustment = model.adjustment(modelContext(frontLoadLbs));
 
-  const totalAdjustment = casingAdjustment * surfaceAdjustment * tireTypeAdjustment;
+  let finalFrontPsi = model.basePsi(modelContext(frontLoadLbs)) * totalAdjustment;
+  let finalRearPsi = model.basePsi(modelContext(rearLoadLbs)) * totalAdjustment;
 
-  let finalFrontPsi = baseFrontPsi * totalAdjustment;
-  let finalRearPsi = baseRearPsi * totalAdjustment;
+  notes.push(...(model.notes?.(modelContext(frontLoadLbs)) ?? []));
 
   // --- Safety Checks and Warnings ---
 
-  // Hookless Rim safety limit (generally 72.5 PSI / 5 Bar)
-  const HOOKLESS_MAX_PSI = 72;
-  if (isHookless) {
-    notes.push(`Hookless rim detected. Pressure is capped at ${HOOKLESS_MAX_PSI} PSI for safety.`);
-    if (finalFrontPsi > HOOKLESS_MAX_PSI) {
-      warnings.push(`Front pressure was reduced to ${HOOKLESS_MAX_PSI} PSI due to hookless rim limits.`);
-      finalFrontPsi = HOOKLESS_MAX_PSI;
+  // Rim/tire limits: ISO 5775 hookless rules plus manufacturer catalogs and sidewall values
+  const safety = evaluatePressureSafety({
+    isHookless,
+    tireType,
+    tireWidthMm,
+    rimWidthMm,
+    rim: findRimSpec(rimModel),
+    tire: findTireSpec(tireModel, tireWidthMm),
+    rimMaxPsi,
+    tireMaxPsi,
+    pressureUnit: units.pressure,
+  });
+
+  if (safety.isHookless && safety.maxPsi !== null) {
+    notes.push(`Hookless rim detected. Pressure is capped at ${pressure(safety.maxPsi)} for safety.`);
+  }
+  if (safety.maxPsi !== null && safety.limitingRule) {
+    const limitSource = safety.limitingRule.source;
+    if (finalFrontPsi > safety.maxPsi) {
+      warnings.push(`Front pressure was reduced to ${pressure(safety.maxPsi)}, the strictest limit for this rim and tire (${limitSource}).`);
+      finalFrontPsi = safety.maxPsi;
     }
-    if (finalRearPsi > HOOKLESS_MAX_PSI) {
-      warnings.push(`Rear pressure was reduced to ${HOOKLESS_MAX_PSI} PSI due to hookless rim limits.`);
-      finalRearPsi = HOOKLESS_MAX_PSI;
+    if (finalRearPsi > safety.maxPsi) {
+      warnings.push(`Rear pressure was reduced to ${pressure(safety.maxPsi)}, the strictest limit for this rim and tire (${limitSource}).`);
+      finalRearPsi = safety.maxPsi;
     }
   }
 
-  // Absolute minimum pressure to prevent rim strikes, now context-aware based on wheel size and tire width
-  let minPsi: number;
-  if (wheelDiameter === '700c' && tireWidthMm < 35) {
-      minPsi = 30; // Road tires
-  } else if (wheelDiameter === '29er' || tireWidthMm >= 50) {
-      minPsi = 20; // MTB tires
-  } else {
-      minPsi = 24; // Gravel / All-road tires
-  }
-  
+  // Absolute minimum pressure to prevent rim strikes, based on wheel size, tire width
+  // and how the tire holds air (tubes pinch-flat sooner, inserts protect the rim)
+  const tireSetup = getTireSetup(tireType);
+  const rimStrikeMinimum = getRimStrikeMinimum(wheelBsdMm, tireWidthMm);
+  const minPsi = Math.round(rimStrikeMinimum.minPsi * tireSetup.rimStrikeFactor);
+
   if (finalFrontPsi < minPsi) {
-      warnings.push(`Front pressure increased to a minimum of ${minPsi} PSI to reduce rim strike risk for your setup.`);
+      warnings.push(`Front pressure increased to a minimum of ${pressure(minPsi)} to reduce rim strike risk for ${rimStrikeMinimum.label} tires (${tireSetup.name}).`);
       finalFrontPsi = minPsi;
   }
   if (finalRearPsi < minPsi) {
-      warnings.push(`Rear pressure increased to a minimum of ${minPsi} PSI to reduce rim strike risk for your setup.`);
+      warnings.push(`Rear pressure increased to a minimum of ${pressure(minPsi)} to reduce rim strike risk for ${rimStrikeMinimum.label} tires (${tireSetup.name}).`);
       finalRearPsi = minPsi;
   }
 
+  if (safety.maxPsi !== null && minPsi > safety.maxPsi) {
+    warnings.push(`The rim strike minimum (${pressure(minPsi)}) is above this rim/tire's ${pressure(safety.maxPsi)} limit. This combination is not suitable for your load; consider a wider tire.`);
+  }
+
   // Add contextual notes
-  if (surfaceAdjustment < 1.0) notes.push('Lower pressure is recommended for rougher surfaces to improve comfort and reduce vibration-based energy loss (impedance).');
-  if (casingAdjustment < 1.0) notes.push('Supple casings are more flexible and can be run at a slightly lower pressure for optimal performance.');
-  if (tireType === 'tubeless') notes.push('Tubeless tires can safely be run at lower pressures, improving grip and comfort without the risk of pinch flats.');
-  
+  if (surfaceType !== 'pavement') notes.push('Lower pressure is recommended for rougher surfaces to improve comfort and reduce vibration-based energy loss (impedance).');
+  if (tireCasing !== 'standard') notes.push('Supple casings are more flexible and can be run at a slightly lower pressure for optimal performance.');
+  notes.push(...tireSetup.notes);
+
+  const frontPsi = roundWithinLimit(finalFrontPsi, safety.maxPsi);
+  const rearPsi = roundWithinLimit(finalRearPsi, safety.maxPsi);
+
+  // Temperature/altitude compensation: the recommendation is what the tire should read
+  // on the ride, so work back to what the gauge should read at inflation.
+  let inflationFrontPsi = frontPsi;
+  let inflationRearPsi = rearPsi;
+  if (conditions && hasConditionChange(conditions)) {
+    const frontCompensation = compensatePressure(frontPsi, conditions);
+    const rearCompensation = compensatePressure(rearPsi, conditions);
+    inflationFrontPsi = Math.round(frontCompensation.inflationPsi * 10) / 10;
+    inflationRearPsi = Math.round(rearCompensation.inflationPsi * 10) / 10;
+
+    const compensationNote = describeCompensation(frontCompensation, rearCompensation, conditions, units);
+    if (compensationNote) notes.push(compensationNote);
+
+    const highestInflationPsi = Math.max(inflationFrontPsi, inflationRearPsi);
+    if (safety.maxPsi !== null && highestInflationPsi > safety.maxPsi) {
+      warnings.push(`The compensated inflation pressure (${pressure(highestInflationPsi)}) is above this rim/tire's ${pressure(safety.maxPsi)} limit. Inflate to the limit and top up closer to the ride conditions instead.`);
+    }
+  }
+
   return {
-    frontPsi: Math.round(finalFrontPsi),
-    rearPsi: Math.round(finalRearPsi),
+    frontPsi,
+    rearPsi,
     frontBar: parseFloat(psiToBar(finalFrontPsi).toFixed(2)),
     rearBar: parseFloat(psiToBar(finalRearPsi).toFixed(2)),
     notes,
     warnings,
+    model: stampPressureModel(model),
+    weightDistribution,
+    wheelLoads,
+    effectiveTireWidthMm: Math.round(effectiveTireWidthMm * 10) / 10,
+    tireHeightMm: Math.round(tireHeightMm * 10) / 10,
+    tireGeometry,
+    safetyWarnings: safety.warnings,
+    maxSafePsi: safety.maxPsi,
+    inflationFrontPsi,
+    inflationRearPsi,
   };
+}
+
+// --- Sensitivity Sweep ---
+
+// Common nominal tire widths, used when sweeping tire width without explicit values.
+const COMMON_TIRE_WIDTHS_MM = [23, 25, 28, 30, 32, 35, 38, 40, 42, 45, 47, 50, 54, 57, 60, 63, 66, 71, 76];
+
+// Round steps in the rider's own unit, so a kg rider sees 5 kg steps rather than 4.54.
+const RIDER_WEIGHT_SWEEP_STEP: Record<MassUnit, number> = { kg: 5, lb: 10 };
+const RIDER_WEIGHT_SWEEP_STEPS = 4; // Either side of the base weight
+
+// Default values for each sweep parameter. Tire widths are limited to what the rim
+// can carry (ETRTO range), plus the base width so the current setup is always shown.
+function defaultSweepValues(inputs: AdvancedCalculationInputs, parameter: SweepParameter): (number | string)[] {
+  switch (parameter) {
+    case 'tireWidthMm': {
+      const { recommendedTireRangeMm } = calculateTireGeometry({
+        nominalTireWidthMm: inputs.tireWidthMm,
+        rimWidthMm: inputs.rimWidthMm,
+        beadSeatDiameterMm: getWheelSize(inputs.wheelBsdMm).bsdMm,
+      });
+      const widths = COMMON_TIRE_WIDTHS_MM.filter(width => width >= recommendedTireRangeMm.min && width <= recommendedTireRangeMm.max);
+      return Array.from(new Set([...widths, inputs.tireWidthMm])).sort((a, b) => a - b);
+    }
+    case 'riderWeightLbs': {
+      const massUnit = (inputs.units ?? DEFAULT_UNIT_PREFERENCES).mass;
+      const stepLbs = toCanonical('mass', RIDER_WEIGHT_SWEEP_STEP[massUnit], massUnit);
+      return Array.from({ length: RIDER_WEIGHT_SWEEP_STEPS * 2 + 1 }, (_, i) =>
+        inputs.riderWeightLbs + (i - RIDER_WEIGHT_SWEEP_STEPS) * stepLbs,
+      ).filter(weight => weight > 0);
+    }
+    case 'surfaceType':
+      return SURFACE_TYPES;
+    case 'tireCasing':
+      return TIRE_CASINGS;
+  }
+}
+
+// Varies one input at a time and recalculates, so riders can see the trade-off
+// (e.g. 32mm vs 35mm tires) instead of recomputing by hand.
+export function sweepPressure(
+  inputs: AdvancedCalculationInputs,
+  parameter: SweepParameter,
+  values: (number | string)[] = defaultSweepValues(inputs, parameter),
+): PressureSweep {
+  const points = values.map(value => {
+    const result = calculateAdvancedPressure({ ...inputs, [parameter]: value });
+    return {
+      value,
+      frontPsi: result.frontPsi,
+      rearPsi: result.rearPsi,
+      maxSafePsi: result.maxSafePsi,
+      hasWarnings: result.warnings.length > 0,
+      isBase: inputs[parameter] === value,
+    };
+  });
+  return { parameter, points };
+}
+
+// --- Model Comparison ---
+
+// Runs the same inputs through every registered model, e.g. to compare a saved
+// setup against the alternatives.
+export function comparePressureModels(inputs: AdvancedCalculationInputs): PressureResult[] {
+  return listPressureModels().map(model => calculateAdvancedPressure({ ...inputs, pressureModel: model.id }));
+}
+
+// A stored result is stale when the model that produced it has since been revised.
+export function isPressureResultCurrent(stamp: PressureModelStamp): boolean {
+  return getPressureModel(stamp.id).version === stamp.version;
 }
\ No newline at end of file
@@ -0,0 +1,92 @@
+// FILE: src/lib/tire-setups.ts
+
+// How the tire holds air: inner tube (and which kind), tubeless, tubeless with a foam
+// insert, or a sewn-up tubular. Each setup scales the model pressure and the wheel
+// size's rim-strike minimum, and adds its own advice to the result notes.
+
+// --- Interfaces ---
+
+export type TireType = 'tubetype' | 'latex-tube' | 'tpu-tube' | 'tubeless' | 'tubeless-insert' | 'tubular';
+
+export interface TireSetup {
+  name: string;
+  // Multiplier on the model pressure. Tube types with less hysteresis or no pinch-flat
+  // risk can run a little lower. 1.0 is a butyl tube.
+  pressureFactor: number;
+  // Multiplier on the rim-strike minimums in WHEEL_SIZE_CATALOG, which are set for a
+  // plain tubeless tire. Tubes pinch-flat before the rim is hit; inserts protect the rim.
+  rimStrikeFactor: number;
+  usesInnerTube: boolean; // Inner tubes in hookless rims need extra care, see pressure-safety-rules
+  notes: string[];
+}
+
+// --- Catalog ---
+
+export const TIRE_SETUPS: Record<TireType, TireSetup> = {
+  tubetype: {
+    name: 'Butyl Tube',
+    pressureFactor: 1.0,
+    rimStrikeFactor: 1.15,
+    usesInnerTube: true,
+    notes: [
+      'Butyl tubes pinch-flat ("snakebite") when the tire bottoms out, so keep a little extra pressure in reserve on rough roads.',
+    ],
+  },
+  'latex-tube': {
+    name: 'Latex Tube',
+    pressureFactor: 0.97,
+    rimStrikeFactor: 1.05,
+    usesInnerTube: true,
+    notes: [
+      'Latex tubes roll faster and resist pinch flats better than butyl, but lose air overnight. Check pressure before every ride.',
+    ],
+  },
+  'tpu-tube': {
+    name: 'TPU Tube',
+    pressureFactor: 0.98,
+    rimStrikeFactor: 1.1,
+    usesInnerTube: true,
+    notes: [
+      'TPU tubes are light and hold air well, but are less tolerant of pinching than latex. Do not go below the recommended minimum.',
+      'Some TPU tubes are not rated for rim brakes; heat from long descents can damage them.',
+    ],
+  },
+  tubeless: {
+    name: 'Tubeless',
+    pressureFactor: 0.90,
+    rimStrikeFactor: 1.0,
+    usesInnerTube: false,
+    notes: [
+      'Tubeless tires can safely be run at lower pressures, improving grip and comfort without the risk of pinch flats.',
+    ],
+  },
+  'tubeless-insert': {
+    name: 'Tubeless + Insert',
+    pressureFactor: 0.85,
+    rimStrikeFactor: 0.7,
+    usesInnerTube: false,
+    notes: [
+      'Inserts (CushCore, Tannus Armour, Vittoria Air-Liner) protect the rim and support the sidewall, so the rim-strike floor is lower.',
+      'With an insert, set pressure for grip and damping first; if the tire feels vague or folds in corners, add pressure rather than relying on the insert.',
+    ],
+  },
+  tubular: {
+    name: 'Tubular',
+    pressureFactor: 0.95,
+    rimStrikeFactor: 1.0,
+    usesInnerTube: false,
+    notes: [
+      'Tubulars can be run slightly lower than clinchers, but too little pressure risks rolling the tire off the rim in hard corners. Check your glue or tape bond.',
+    ],
+  },
+};
+
+// --- Helper Functions ---
+
+export function getTireSetup(tireType: TireType): TireSetup {
+  return TIRE_SETUPS[tireType] ?? TIRE_SETUPS.tubetype;
+}
+
+export function listTireSetups(): { id: TireType; setup: TireSetup }[] {
+  return (Object.keys(TIRE_SETUPS) as TireType[]).map(id => ({ id, setup: TIRE_SETUPS[id] }));
+}
@@ -0,0 +1,136 @@
+// FILE: src/lib/units.ts
+
+// Units subsystem. Calculator logic works in one canonical unit per quantity (pounds,
+// PSI, millimetres, °C and metres — the units the formulas and manufacturer data were
+// written in) and every conversion to or from what the rider sees goes through this
+// file. Logic inputs are always canonical; pages read the rider's preference from
+// `profiles.unit_preferences` and convert at the edges.
+
+// --- Interfaces ---
+
+export type MassUnit = 'kg' | 'lb';
+export type PressureUnit = 'bar' | 'psi' | 'kpa';
+export type LengthUnit = 'mm' | 'in';
+export type TemperatureUnit = 'c' | 'f';
+export type AltitudeUnit = 'm' | 'ft';
+
+export type Quantity = 'mass' | 'pressure' | 'length' | 'temperature' | 'altitude';
+
+export interface UnitPreferences {
+  mass: MassUnit;
+  pressure: PressureUnit;
+  length: LengthUnit;
+  temperature: TemperatureUnit;
+  altitude: AltitudeUnit; // Elevation and climbing, kept apart from the mm-scale lengths
+}
+
+type UnitFor<Q extends Quantity> = UnitPreferences[Q];
+
+// --- Unit Tables ---
+
+// Factor from the canonical unit (lb, psi, mm, °C, m) to each unit, plus display
+// details. Temperature scales also need an offset.
+const UNITS: { [Q in Quantity]: Record<UnitFor<Q>, { perCanonical: number; offset?: number; label: string; decimals: number }> } = {
+  mass: {
+    lb: { perCanonical: 1, label: 'lbs', decimals: 0 },
+    kg: { perCanonical: 0.45359237, label: 'kg', decimals: 1 },
+  },
+  pressure: {
+    psi: { perCanonical: 1, label: 'PSI', decimals: 1 },
+    bar: { perCanonical: 1 / 14.5038, label: 'bar', decimals: 2 },
+    kpa: { perCanonical: 6.89476, label: 'kPa', decimals: 0 },
+  },
+  length: {
+    mm: { perCanonical: 1, label: 'mm', decimals: 1 },
+    in: { perCanonical: 1 / 25.4, label: 'in', decimals: 2 },
+  },
+  temperature: {
+    c: { perCanonical: 1, label: '°C', decimals: 0 },
+    f: { perCanonical: 1.8, offset: 32, label: '°F', decimals: 0 },
+  },
+  altitude: {
+    m: { perCanonical: 1, label: 'm', decimals: 0 },
+    ft: { perCanonical: 1 / 0.3048, label: 'ft', decimals: 0 },
+  },
+};
+
+// Metric first: new riders see kg / bar / mm until they choose otherwise.
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = {
+  mass: 'kg',
+  pressure: 'bar',
+  length: 'mm',
+  temperature: 'c',
+  altitude: 'm',
+};
+
+export const UNIT_OPTIONS: { [Q in Quantity]: UnitFor<Q>[] } = {
+  mass: ['kg', 'lb'],
+  pressure: ['bar', 'psi', 'kpa'],
+  length: ['mm', 'in'],
+  temperature: ['c', 'f'],
+  altitude: ['m', 'ft'],
+};
+
+// --- Conversion ---
+
+// Canonical (lb / psi / mm / °C / m) -> the given unit.
+export function fromCanonical<Q extends Quantity>(quantity: Q, value: number, unit: UnitFor<Q>): number {
+  const { perCanonical, offset = 0 } = UNITS[quantity][unit];
+  return value * perCanonical + offset;
+}
+
+// The given unit -> canonical (lb / psi / mm / °C / m).
+export function toCanonical<Q extends Quantity>(quantity: Q, value: number, unit: UnitFor<Q>): number {
+  const { perCanonical, offset = 0 } = UNITS[quantity][unit];
+  return (value - offset) / perCanonical;
+}
+
+export const lbsToKg = (lbs: number) => fromCanonical('mass', lbs, 'kg');
+export const kgToLbs = (kg: number) => toCanonical('mass', kg, 'kg');
+export const psiToBar = (psi: number) => fromCanonical('pressure', psi, 'bar');
+export const barToPsi = (bar: number) => toCanonical('pressure', bar, 'bar');
+export const psiToKpa = (psi: number) => fromCanonical('pressure', psi, 'kpa');
+export const mmToInches = (mm: number) => fromCanonical('length', mm, 'in');
+export const inchesToMm = (inches: number) => toCanonical('length', inches, 'in');
+
+// --- Display ---
+
+export function unitLabel<Q extends Quantity>(quantity: Q, unit: UnitFor<Q>): string {
+  return UNITS[quantity][unit].label;
+}
+
+// Rounds to the precision riders expect for the unit (0.1 PSI, 0.01 bar, 0.1 kg...).
+export function roundForUnit<Q extends Quantity>(quantity: Q, value: number, unit: UnitFor<Q>): number {
+  const factor = Math.pow(10, UNITS[quantity][unit].decimals);
+  return Math.round(value * factor) / factor;
+}
+
+// Converts a canonical value and formats it with its unit label, e.g. "4.48 bar".
+export function formatMeasurement<Q extends Quantity>(quantity: Q, canonicalValue: number, unit: UnitFor<Q>): string {
+  const value = roundForUnit(quantity, fromCanonical(quantity, canonicalValue, unit), unit);
+  return `${value} ${unitLabel(quantity, unit)}`;
+}
+
+export const formatMass = (lbs: number, unit: MassUnit) => formatMeasurement('mass', lbs, unit);
+export const formatPressure = (psi: number, unit: PressureUnit) => formatMeasurement('pressure', psi, unit);
+export const formatLength = (mm: number, unit: LengthUnit) => formatMeasurement('length', mm, unit);
+export const formatTemperature = (celsius: number, unit: TemperatureUnit) => formatMeasurement('temperature', celsius, unit);
+export const formatAltitude = (metres: number, unit: AltitudeUnit) => formatMeasurement('altitude', metres, unit);
+
+// --- Preferences ---
+
+// Reads `profiles.unit_preferences` (jsonb). Anything missing or unrecognised falls
+// back to the metric default, so a partial or stale value never breaks a page.
+export function resolveUnitPreferences(stored?: Partial<Record<Quantity, string>> | null): UnitPreferences {
+  const pick = <Q extends Quantity>(quantity: Q): UnitFor<Q> => {
+    const value = stored?.[quantity] as UnitFor<Q> | undefined;
+    return value && UNIT_OPTIONS[quantity].includes(value) ? value : DEFAULT_UNIT_PREFERENCES[quantity];
+  };
+  return {
+    mass: pick('mass'),
+    pressure: pick('pressure'),
+    length: pick('length'),
+    temperature: pick('temperature'),
+    altitude: pick('altitude'),
+  };
+}
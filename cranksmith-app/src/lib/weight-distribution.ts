@@ -0,0 +1,134 @@
+// FILE: src/lib/weight-distribution.ts
+
+// Front/rear weight distribution, either measured (two bathroom scales, one under
+// each wheel, rider in riding position) or estimated from bike type, riding
+// position and, when known, frame stack/reach.
+
+import { DEFAULT_UNIT_PREFERENCES, MassUnit, formatMass } from './units';
+
+// --- Constants ---
+
+// Share of total system weight on the front wheel, seated in the bike's typical
+// position. Long, slack MTB geometry moves weight rearward; a TT bike on the
+// extensions sits much further forward.
+const BASE_FRONT_SHARE = {
+  road: 0.42,
+  tt: 0.48,
+  gravel: 0.42,
+  mtb: 0.40,
+};
+
+const BIKE_TYPE_LABEL = {
+  road: 'road',
+  tt: 'TT',
+  gravel: 'gravel',
+  mtb: 'MTB',
+};
+
+// Shift in front share for each riding position, relative to the bike's typical position.
+const POSITION_FRONT_OFFSET = {
+  upright: -0.04, // Tops / commuting posture
+  hoods: 0,
+  drops: 0.03,
+  aero: 0.06,     // TT extensions or aggressive aero tuck
+};
+
+// Stack / reach ratio for an "average" endurance road frame. Lower ratios mean a
+// longer, lower cockpit that shifts the rider forward.
+const REFERENCE_STACK_REACH_RATIO = 1.45;
+const STACK_REACH_SENSITIVITY = 0.1;  // Front share change per unit of stack/reach ratio
+const MAX_GEOMETRY_OFFSET = 0.03;
+
+// Sensible bounds for any bicycle; anything outside is almost certainly a measuring error.
+const MIN_FRONT_SHARE = 0.3;
+const MAX_FRONT_SHARE = 0.6;
+
+// Used when no distribution is supplied at all.
+export const DEFAULT_WEIGHT_DISTRIBUTION = {
+  front: 0.45, // 45% of total weight on the front wheel
+  rear: 0.55,  // 55% on the rear
+};
+
+// --- Interfaces ---
+
+export type BikeType = keyof typeof BASE_FRONT_SHARE;
+export type RidingPosition = keyof typeof POSITION_FRONT_OFFSET;
+
+export type WeightDistributionInput =
+  | {
+      method: 'measured';
+      frontScaleLbs: number;
+      rearScaleLbs: number;
+    }
+  | {
+      method: 'estimated';
+      bikeType: BikeType;
+      ridingPosition: RidingPosition;
+      stackMm?: number;
+      reachMm?: number;
+    };
+
+export interface WeightDistribution {
+  front: number;
+  rear: number;
+  source: 'measured' | 'estimated' | 'default';
+  notes: string[];
+}
+
+// --- Helper Functions ---
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const toPercent = (share: number) => Math.round(share * 100);
+
+// --- Resolution ---
+
+export function resolveWeightDistribution(input?: WeightDistributionInput, massUnit: MassUnit = DEFAULT_UNIT_PREFERENCES.mass): WeightDistribution {
+  if (!input) {
+    return {
+      ...DEFAULT_WEIGHT_DISTRIBUTION,
+      source: 'default',
+      notes: [`Using a default ${toPercent(DEFAULT_WEIGHT_DISTRIBUTION.front)}/${toPercent(DEFAULT_WEIGHT_DISTRIBUTION.rear)} front/rear weight split.`],
+    };
+  }
+
+  if (input.method === 'measured') {
+    const total = input.frontScaleLbs + input.rearScaleLbs;
+    if (!(total > 0)) {
+      return {
+        ...resolveWeightDistribution(),
+        notes: ['Scale readings were missing, so a default weight split was used instead.'],
+      };
+    }
+
+    const measuredFront = input.frontScaleLbs / total;
+    const front = clamp(measuredFront, MIN_FRONT_SHARE, MAX_FRONT_SHARE);
+    const notes = [`Measured weight split: ${toPercent(front)}% front / ${toPercent(1 - front)}% rear (${formatMass(total, massUnit)} on the scales).`];
+    if (front !== measuredFront) {
+      notes.push('Your scale readings were outside the normal range for a bicycle and were limited. Double-check both readings.');
+    }
+    return { front, rear: 1 - front, source: 'measured', notes };
+  }
+
+  const { bikeType, ridingPosition, stackMm, reachMm } = input;
+  const notes: string[] = [];
+
+  let front = BASE_FRONT_SHARE[bikeType] + POSITION_FRONT_OFFSET[ridingPosition];
+
+  if (stackMm && reachMm) {
+    const stackReachRatio = stackMm / reachMm;
+    const geometryOffset = clamp(
+      (REFERENCE_STACK_REACH_RATIO - stackReachRatio) * STACK_REACH_SENSITIVITY,
+      -MAX_GEOMETRY_OFFSET,
+      MAX_GEOMETRY_OFFSET,
+    );
+    front += geometryOffset;
+    if (Math.abs(geometryOffset) >= 0.01) {
+      notes.push(`Your frame's stack/reach ratio of ${stackReachRatio.toFixed(2)} is ${geometryOffset > 0 ? 'more aggressive' : 'more relaxed'} than average, moving about ${Math.abs(toPercent(geometryOffset))}% of your weight ${geometryOffset > 0 ? 'forward' : 'rearward'}.`);
+    }
+  }
+
+  front = clamp(front, MIN_FRONT_SHARE, MAX_FRONT_SHARE);
+  notes.unshift(`Estimated weight split for a ${BIKE_TYPE_LABEL[bikeType]} bike in the ${ridingPosition} position: ${toPercent(front)}% front / ${toPercent(1 - front)}% rear. Measure with two scales for a more precise result.`);
+
+  return { front, rear: 1 - front, source: 'estimated', notes };
+}
@@ -0,0 +1,148 @@
+// FILE: src/lib/wheel-sizes.ts
+
+// Wheel size catalog keyed by ETRTO bead-seat diameter (BSD). Marketing names are
+// ambiguous ("26 inch" alone covers several BSDs, and 700c and 29" are the same rim),
+// so everything that needs a wheel size — tire pressure, rim-strike minimums, gear
+// circumference defaults — looks it up here by BSD.
+
+import { calculateTireGeometry, getReferenceRimWidth } from './tire-geometry';
+
+// --- Interfaces ---
+
+export type WheelBsd = 622 | 584 | 571 | 559 | 507 | 406 | 349 | 305;
+
+// Minimum pressure to protect against rim strikes, by tire width band.
+// Bands are checked in order; the first with maxTireWidthMm >= tire width applies.
+export interface RimStrikeMinimum {
+  maxTireWidthMm: number;
+  minPsi: number;
+  label: string; // What kind of tire this band represents, used in notes
+}
+
+export interface WheelSize {
+  bsdMm: WheelBsd;
+  name: string;
+  aliases: string[];
+  typicalTireWidthMm: number;  // Used when a tire width is needed but not known
+  rimStrikeMinimums: RimStrikeMinimum[];
+}
+
+// --- Catalog ---
+
+export const WHEEL_SIZE_CATALOG: Record<WheelBsd, WheelSize> = {
+  622: {
+    bsdMm: 622,
+    name: '700c / 29"',
+    aliases: ['700c', '29er', '29"', '28"'],
+    typicalTireWidthMm: 28,
+    rimStrikeMinimums: [
+      { maxTireWidthMm: 34, minPsi: 30, label: 'road' },
+      { maxTireWidthMm: 49, minPsi: 24, label: 'gravel / all-road' },
+      { maxTireWidthMm: 75, minPsi: 20, label: '29" MTB' },
+      { maxTireWidthMm: Infinity, minPsi: 8, label: '29+ / fat' },
+    ],
+  },
+  584: {
+    bsdMm: 584,
+    name: '650b / 27.5"',
+    aliases: ['650b', '27.5"', '27.5 fat'],
+    typicalTireWidthMm: 47,
+    rimStrikeMinimums: [
+      { maxTireWidthMm: 49, minPsi: 24, label: '650b gravel / all-road' },
+      { maxTireWidthMm: 65, minPsi: 20, label: '27.5" MTB' },
+      { maxTireWidthMm: 90, minPsi: 14, label: '27.5+' },
+      { maxTireWidthMm: Infinity, minPsi: 6, label: '27.5" fat' },
+    ],
+  },
+  571: {
+    bsdMm: 571,
+    name: '650c',
+    aliases: ['650c', '26" x 1"'],
+    typicalTireWidthMm: 23,
+    rimStrikeMinimums: [
+      { maxTireWidthMm: Infinity, minPsi: 30, label: '650c road / triathlon' },
+    ],
+  },
+  559: {
+    bsdMm: 559,
+    name: '26"',
+    aliases: ['26"', '26 fat'],
+    typicalTireWidthMm: 55,
+    rimStrikeMinimums: [
+      { maxTireWidthMm: 44, minPsi: 30, label: '26" touring / slick' },
+      { maxTireWidthMm: 65, minPsi: 20, label: '26" MTB' },
+      { maxTireWidthMm: 90, minPsi: 14, label: '26+' },
+      { maxTireWidthMm: Infinity, minPsi: 5, label: '26" fat' },
+    ],
+  },
+  507: {
+    bsdMm: 507,
+    name: '24"',
+    aliases: ['24"'],
+    typicalTireWidthMm: 50,
+    rimStrikeMinimums: [
+      { maxTireWidthMm: 44, minPsi: 30, label: '24" road / touring' },
+      { maxTireWidthMm: Infinity, minPsi: 20, label: '24" MTB' },
+    ],
+  },
+  406: {
+    bsdMm: 406,
+    name: '20" (BMX / folding)',
+    aliases: ['20"', 'BMX'],
+    typicalTireWidthMm: 56,
+    rimStrikeMinimums: [
+      { maxTireWidthMm: 40, minPsi: 45, label: '20" folding' },
+      { maxTireWidthMm: Infinity, minPsi: 30, label: 'BMX' },
+    ],
+  },
+  349: {
+    bsdMm: 349,
+    name: '16" (Brompton)',
+    aliases: ['16" x 1 3/8"', 'Brompton'],
+    typicalTireWidthMm: 35,
+    rimStrikeMinimums: [
+      { maxTireWidthMm: Infinity, minPsi: 50, label: '16" folding' },
+    ],
+  },
+  305: {
+    bsdMm: 305,
+    name: '16" (ISO 305)',
+    aliases: ['16"'],
+    typicalTireWidthMm: 47,
+    rimStrikeMinimums: [
+      { maxTireWidthMm: Infinity, minPsi: 30, label: '16" folding / kids' },
+    ],
+  },
+};
+
+export const DEFAULT_WHEEL_BSD: WheelBsd = 622;
+
+// --- Helper Functions ---
+
+export function getWheelSize(bsdMm: number): WheelSize {
+  return WHEEL_SIZE_CATALOG[bsdMm as WheelBsd] ?? WHEEL_SIZE_CATALOG[DEFAULT_WHEEL_BSD];
+}
+
+export function listWheelSizes(): WheelSize[] {
+  return Object.values(WHEEL_SIZE_CATALOG).sort((a, b) => b.bsdMm - a.bsdMm);
+}
+
+export function getRimStrikeMinimum(bsdMm: number, tireWidthMm: number): RimStrikeMinimum {
+  const { rimStrikeMinimums } = getWheelSize(bsdMm);
+  return rimStrikeMinimums.find(band => tireWidthMm <= band.maxTireWidthMm) ?? rimStrikeMinimums[rimStrikeMinimums.length - 1];
+}
+
+// Rolling circumference for a wheel size, using the tire's nominal width on its
+// ETRTO reference rim. Falls back to the size's typical tire width.
+export function getWheelCircumferenceMm(bsdMm: number = DEFAULT_WHEEL_BSD, tireWidthMm?: number): number {
+  const wheelSize = getWheelSize(bsdMm);
+  const nominalTireWidthMm = tireWidthMm || wheelSize.typicalTireWidthMm;
+  const geometry = calculateTireGeometry({
+    nominalTireWidthMm,
+    rimWidthMm: getReferenceRimWidth(nominalTireWidthMm),
+    beadSeatDiameterMm: wheelSize.bsdMm,
+  });
+  return Math.round(geometry.rollingCircumferenceMm);
+}
+
+export const DEFAULT_WHEEL_CIRCUMFERENCE_MM = getWheelCircumferenceMm(DEFAULT_WHEEL_BSD);
@@ -0,0 +1,12 @@
+-- Per-user display units for the calculators. Calculator logic stays in lbs / PSI / mm;
+-- pages convert using src/lib/units.ts. Missing keys fall back to the metric default.
+alter table public.profiles
+  add column if not exists unit_preferences jsonb not null
+    default '{"mass": "kg", "pressure": "bar", "length": "mm"}'::jsonb;
+
+alter table public.profiles
+  add constraint profiles_unit_preferences_valid check (
+    (unit_preferences->>'mass' is null or unit_preferences->>'mass' in ('kg', 'lb'))
+    and (unit_preferences->>'pressure' is null or unit_preferences->>'pressure' in ('bar', 'psi', 'kpa'))
+    and (unit_preferences->>'length' is null or unit_preferences->>'length' in ('mm', 'in'))
+  );
@@ -0,0 +1,36 @@
+-- Measured sag per fork/shock on a garage bike. Each row also stores the sag bias the
+-- measurement implies (see src/lib/sag-correction.ts) so the calculator can learn a
+-- per-rider correction without re-running old calculations.
+create table if not exists public.sag_logs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  bike_id uuid not null references public.bikes (id) on delete cascade,
+  component_id uuid not null references public.components (id) on delete cascade,
+  component_type text not null check (component_type in ('fork', 'shock')),
+  logged_on date not null default current_date,
+  pressure_psi numeric not null check (pressure_psi > 0),
+  measured_sag_mm numeric not null check (measured_sag_mm >= 0),
+  travel_mm numeric not null check (travel_mm > 0),
+  target_sag_percent numeric not null,
+  temperature_c numeric,
+  notes text,
+  sag_bias numeric not null check (sag_bias > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists sag_logs_user_component_idx
+  on public.sag_logs (user_id, component_id, logged_on desc);
+
+alter table public.sag_logs enable row level security;
+
+create policy "Users can read their own sag logs"
+  on public.sag_logs for select
+  using (auth.uid() = user_id);
+
+create policy "Users can add their own sag logs"
+  on public.sag_logs for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own sag logs"
+  on public.sag_logs for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,135 @@
+-- Suspension specs in the products catalog. Forks and shocks are `products` rows with
+-- `product_type` 'fork' / 'shock' and a detail row in `forks` / `shocks`, like
+-- cassettes and derailleurs. Read by src/lib/suspension-catalog.ts; new entries come in
+-- through POST /api/catalog/suspension/import.
+--
+-- Values are approximate defaults:
+-- - `travel_mm` is a common configuration for forks (many are sold in several travels)
+--   and the STROKE for shocks, not the bike's rear wheel travel.
+-- - `stanchion_diameter_mm` is the damper shaft diameter for shocks.
+-- - `air_chamber_volume_cc` is ESTIMATED from stanchion size, travel and architecture;
+--   manufacturers don't publish it. Null for coil springs.
+-- - Coil springs have `max_pressure_psi` 0 and `spring_curve` 'coil'.
+
+create table if not exists public.forks (
+  product_id uuid primary key references public.products (id) on delete cascade,
+  travel_mm numeric not null check (travel_mm > 0),
+  stanchion_diameter_mm numeric not null check (stanchion_diameter_mm > 0),
+  air_chamber_volume_cc numeric check (air_chamber_volume_cc > 0),
+  negative_chamber_volume_cc numeric check (negative_chamber_volume_cc > 0),
+  air_piston_diameter_mm numeric check (air_piston_diameter_mm > 0),
+  max_pressure_psi numeric not null check (max_pressure_psi >= 0),
+  recommended_sag_percent numeric not null check (recommended_sag_percent between 5 and 50),
+  spring_curve text not null check (spring_curve in ('linear', 'progressive', 'digressive', 'coil')),
+  damper text,
+  baseline_pressure_chart jsonb,
+  baseline_pressure_chart_source text,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.forks enable row level security;
+
+create policy "Anyone can read forks"
+  on public.forks for select
+  using (true);
+
+create table if not exists public.shocks (
+  product_id uuid primary key references public.products (id) on delete cascade,
+  travel_mm numeric not null check (travel_mm > 0),
+  stanchion_diameter_mm numeric not null check (stanchion_diameter_mm > 0),
+  air_chamber_volume_cc numeric check (air_chamber_volume_cc > 0),
+  negative_chamber_volume_cc numeric check (negative_chamber_volume_cc > 0),
+  air_piston_diameter_mm numeric check (air_piston_diameter_mm > 0),
+  max_pressure_psi numeric not null check (max_pressure_psi >= 0),
+  recommended_sag_percent numeric not null check (recommended_sag_percent between 5 and 50),
+  spring_curve text not null check (spring_curve in ('linear', 'progressive', 'digressive', 'coil')),
+  damper text,
+  baseline_pressure_chart jsonb,
+  baseline_pressure_chart_source text,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.shocks enable row level security;
+
+create policy "Anyone can read shocks"
+  on public.shocks for select
+  using (true);
+
+-- Seed with the specs previously hardcoded in suspension-logic.ts, in one statement.
+-- Products the seed adds are only visible through `returning`, so they are joined
+-- back in alongside the ones that already existed.
+with suspension_seed (product_type, brand, model, travel_mm, stanchion_diameter_mm, air_chamber_volume_cc, max_pressure_psi, recommended_sag_percent, spring_curve, damper) as (
+  values
+    ('fork', 'Fox', '32 Step-Cast Float', 100, 32, 280, 250, 15, 'linear', null),
+    ('fork', 'Fox', '34 Float', 140, 34, 350, 140, 20, 'progressive', 'GRIP2'),
+    ('fork', 'Fox', '34 Step-Cast Float', 120, 34, 320, 140, 20, 'progressive', null),
+    ('fork', 'Fox', '36 Float', 160, 36, 410, 140, 20, 'progressive', 'GRIP2'),
+    ('fork', 'Fox', '38 Float', 170, 38, 460, 140, 20, 'progressive', 'GRIP2'),
+    ('fork', 'Fox', '40 Float', 203, 40, 550, 140, 25, 'progressive', 'GRIP2'),
+    ('fork', 'RockShox', 'SID SL Ultimate', 100, 32, 290, 240, 15, 'linear', null),
+    ('fork', 'RockShox', 'SID Ultimate (35mm)', 120, 35, 360, 260, 20, 'progressive', null),
+    ('fork', 'RockShox', 'Pike Ultimate', 140, 35, 380, 279, 20, 'progressive', 'Charger 3'),
+    ('fork', 'RockShox', 'Lyrik Ultimate', 160, 35, 420, 279, 20, 'progressive', 'Charger 3'),
+    ('fork', 'RockShox', 'ZEB Ultimate', 170, 38, 480, 270, 20, 'progressive', 'Charger 3'),
+    ('fork', 'RockShox', 'BoXXer Ultimate', 200, 38, 520, 250, 25, 'progressive', 'Charger 3'),
+    ('fork', 'Marzocchi', 'Bomber Z2', 140, 34, 360, 140, 20, 'progressive', null),
+    ('fork', 'Marzocchi', 'Bomber Z1', 170, 36, 415, 140, 20, 'progressive', null),
+    ('fork', 'Marzocchi', 'Bomber 58', 203, 40, 550, 140, 25, 'progressive', null),
+    ('fork', 'Marzocchi', 'Bomber Z1 Coil', 170, 36, null, 0, 20, 'coil', null),
+    ('fork', 'Öhlins', 'RXF36 M.2 Air', 160, 36, 400, 175, 20, 'progressive', null),
+    ('fork', 'Öhlins', 'RXF38 M.2 Air', 170, 38, 470, 175, 20, 'progressive', null),
+    ('fork', 'Öhlins', 'RXF36 M.2 Coil', 160, 36, null, 0, 20, 'coil', null),
+    ('fork', 'Öhlins', 'DH38 M.1 Air', 200, 38, 530, 175, 25, 'progressive', null),
+    ('fork', 'Cane Creek', 'Helm MKII Air', 160, 35, 400, 150, 20, 'progressive', null),
+    ('fork', 'DVO', 'Sapphire D1', 140, 34, 370, 180, 20, 'progressive', null),
+    ('fork', 'DVO', 'Onyx SC D1', 170, 36, 430, 180, 20, 'progressive', null),
+    ('fork', 'Manitou', 'Mattoc Pro', 140, 34, 400, 120, 20, 'progressive', null),
+    ('fork', 'Manitou', 'Mezzer Pro', 160, 37, 500, 120, 20, 'progressive', null),
+    ('shock', 'Fox', 'Float SL', 45, 9, 140, 350, 25, 'linear', null),
+    ('shock', 'Fox', 'Float DPS', 50, 9, 160, 350, 25, 'progressive', null),
+    ('shock', 'Fox', 'Float X', 55, 12.7, 220, 350, 30, 'progressive', null),
+    ('shock', 'Fox', 'Float X2', 65, 9, 280, 300, 30, 'progressive', 'Float X2'),
+    ('shock', 'RockShox', 'SIDLuxe Ultimate', 45, 10, 150, 325, 25, 'linear', null),
+    ('shock', 'RockShox', 'Deluxe Ultimate', 50, 10, 170, 325, 30, 'progressive', null),
+    ('shock', 'RockShox', 'Super Deluxe Ultimate', 65, 10, 270, 325, 30, 'progressive', 'Super Deluxe RC2T'),
+    ('shock', 'RockShox', 'Vivid Ultimate', 65, 10, 320, 275, 35, 'progressive', null),
+    ('shock', 'Marzocchi', 'Bomber Air', 55, 12.7, 225, 350, 30, 'progressive', null),
+    ('shock', 'Öhlins', 'TTXAir 2', 60, 12.7, 250, 300, 30, 'progressive', null),
+    ('shock', 'Cane Creek', 'Kitsuma Air', 65, 9.5, 290, 300, 30, 'progressive', null),
+    ('shock', 'DVO', 'Topaz 2', 55, 10, 240, 300, 30, 'progressive', null),
+    ('shock', 'Manitou', 'Mara Pro', 55, 12.7, 260, 300, 30, 'progressive', null),
+    ('shock', 'Fox', 'DHX2', 65, 9, null, 0, 30, 'coil', 'DHX2'),
+    ('shock', 'RockShox', 'Super Deluxe Coil Ultimate', 65, 10, null, 0, 30, 'coil', 'Super Deluxe RC2T'),
+    ('shock', 'Öhlins', 'TTX22m.2', 65, 12.7, null, 0, 30, 'coil', null)
+),
+new_products as (
+  insert into public.products (brand, model, description, product_type)
+  select s.brand, s.model, s.brand || ' ' || s.model, s.product_type
+  from suspension_seed s
+  where not exists (
+    select 1 from public.products p
+    where p.product_type = s.product_type and p.brand = s.brand and p.model = s.model
+  )
+  returning id, brand, model, product_type
+),
+seed_products as (
+  select s.*, n.id as product_id
+  from suspension_seed s
+  join new_products n on n.product_type = s.product_type and n.brand = s.brand and n.model = s.model
+  union all
+  select s.*, p.id as product_id
+  from suspension_seed s
+  join public.products p on p.product_type = s.product_type and p.brand = s.brand and p.model = s.model
+),
+seeded_forks as (
+  insert into public.forks (product_id, travel_mm, stanchion_diameter_mm, air_chamber_volume_cc, max_pressure_psi, recommended_sag_percent, spring_curve, damper)
+  select product_id, travel_mm, stanchion_diameter_mm, air_chamber_volume_cc, max_pressure_psi, recommended_sag_percent, spring_curve, damper
+  from seed_products
+  where product_type = 'fork'
+  on conflict (product_id) do nothing
+)
+insert into public.shocks (product_id, travel_mm, stanchion_diameter_mm, air_chamber_volume_cc, max_pressure_psi, recommended_sag_percent, spring_curve, damper)
+select product_id, travel_mm, stanchion_diameter_mm, air_chamber_volume_cc, max_pressure_psi, recommended_sag_percent, spring_curve, damper
+from seed_products
+where product_type = 'shock'
+on conflict (product_id) do nothing;
@@ -0,0 +1,54 @@
+-- Model-year, travel, air spring and wheel size variants of a catalog fork/shock. The
+-- `forks` / `shocks` row is the family (current version); a variant overrides some of
+-- its fields (same names as the detail table) when the rider's product matches every
+-- constraint the variant sets. See src/lib/spec-resolution.ts.
+create table if not exists public.suspension_spec_variants (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  label text not null,
+  model_year_from integer,
+  model_year_to integer,
+  travel_min_mm numeric,
+  travel_max_mm numeric,
+  air_spring text,
+  wheel_size text check (wheel_size in ('27.5', '29')),
+  overrides jsonb not null default '{}'::jsonb check (jsonb_typeof(overrides) = 'object'),
+  created_at timestamptz not null default now(),
+  check (model_year_from is null or model_year_to is null or model_year_from <= model_year_to),
+  check (travel_min_mm is null or travel_max_mm is null or travel_min_mm <= travel_max_mm)
+);
+
+create index if not exists suspension_spec_variants_product_idx
+  on public.suspension_spec_variants (product_id);
+
+alter table public.suspension_spec_variants enable row level security;
+
+create policy "Anyone can read suspension spec variants"
+  on public.suspension_spec_variants for select
+  using (true);
+
+-- Known differences from the current versions. Values are approximate, like the
+-- family specs.
+insert into public.suspension_spec_variants (product_id, label, model_year_from, model_year_to, travel_min_mm, travel_max_mm, air_spring, wheel_size, overrides)
+select p.id, v.label, v.model_year_from, v.model_year_to, v.travel_min_mm, v.travel_max_mm, v.air_spring, v.wheel_size, v.overrides::jsonb
+from (values
+  ('fork', 'RockShox', 'Pike Ultimate', '2019-2022 (Charger 2.1, DebonAir)', 2019, 2022, null, null, null, null,
+    '{"damper": "Charger 2.1 RC2", "max_pressure_psi": 300, "air_chamber_volume_cc": 360}'),
+  ('fork', 'RockShox', 'Lyrik Ultimate', '2019-2022 (Charger 2.1, DebonAir)', 2019, 2022, null, null, null, null,
+    '{"damper": "Charger 2.1 RC2", "max_pressure_psi": 300, "air_chamber_volume_cc": 400}'),
+  ('fork', 'RockShox', 'Lyrik Ultimate', 'Dual Position Air', null, null, 130, 160, 'Dual Position Air', null,
+    '{"max_pressure_psi": 280, "air_chamber_volume_cc": 380, "spring_curve": "linear"}'),
+  ('fork', 'RockShox', 'ZEB Ultimate', '2021-2022 (Charger 2.1)', 2021, 2022, null, null, null, null,
+    '{"damper": "Charger 2.1 RC2"}'),
+  ('fork', 'Fox', '36 Float', '2016-2018 (FIT4)', 2016, 2018, null, null, null, null,
+    '{"damper": null, "max_pressure_psi": 150, "air_chamber_volume_cc": 380}'),
+  ('fork', 'Fox', '34 Float', '2016-2020 (FIT4)', 2016, 2020, null, null, null, null,
+    '{"damper": null, "max_pressure_psi": 150}'),
+  ('fork', 'Öhlins', 'RXF36 M.2 Air', '27.5" (150-170mm)', null, null, 150, 170, null, '27.5',
+    '{"air_chamber_volume_cc": 380}')
+) as v(product_type, brand, model, label, model_year_from, model_year_to, travel_min_mm, travel_max_mm, air_spring, wheel_size, overrides)
+join public.products p on p.product_type = v.product_type and p.brand = v.brand and p.model = v.model
+where not exists (
+  select 1 from public.suspension_spec_variants existing
+  where existing.product_id = p.id and existing.label = v.label
+);
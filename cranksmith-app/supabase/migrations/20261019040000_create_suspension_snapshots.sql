@@ -0,0 +1,44 @@
+-- Saved suspension calculator results per garage bike. `settings` holds the calculator
+-- inputs needed to restore a snapshot; `fork` / `shock` hold the results (see
+-- src/lib/setup-snapshots.ts). One snapshot per bike can be the active setup.
+create table if not exists public.suspension_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  bike_id uuid not null references public.bikes (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  tags text[] not null default '{}',
+  is_active boolean not null default false,
+  rider_weight_lbs numeric not null check (rider_weight_lbs > 0),
+  gear_weight_lbs numeric not null default 0 check (gear_weight_lbs >= 0),
+  riding_style text not null check (riding_style in ('xc', 'trail', 'enduro', 'dh', 'casual')),
+  settings jsonb not null default '{}'::jsonb,
+  fork jsonb,
+  shock jsonb,
+  created_at timestamptz not null default now(),
+  check (fork is not null or shock is not null)
+);
+
+create index if not exists suspension_snapshots_bike_idx
+  on public.suspension_snapshots (bike_id, created_at desc);
+
+create unique index if not exists suspension_snapshots_one_active_idx
+  on public.suspension_snapshots (bike_id) where is_active;
+
+alter table public.suspension_snapshots enable row level security;
+
+create policy "Users can read their own suspension snapshots"
+  on public.suspension_snapshots for select
+  using (auth.uid() = user_id);
+
+create policy "Users can add their own suspension snapshots"
+  on public.suspension_snapshots for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own suspension snapshots"
+  on public.suspension_snapshots for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own suspension snapshots"
+  on public.suspension_snapshots for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,6 @@
+-- Front chainline (frame centerline to the middle of the chainrings) for gear analysis:
+-- chain angle per gear and cross-chain flags (see src/lib/gear-analysis.ts). When it is
+-- missing the analysis estimates one from the number of rings and cassette speeds.
+alter table public.cranksets
+  add column if not exists chainline_mm numeric
+    check (chainline_mm is null or chainline_mm between 35 and 75);
@@ -0,0 +1,13 @@
+-- Rider's preferred cadence band for the gear calculator, e.g. {"minRpm": 80, "maxRpm": 95}.
+-- Highlighted in the speed-at-cadence matrix and used for target-speed queries.
+alter table public.profiles
+  add column if not exists cadence_band jsonb;
+
+alter table public.profiles
+  add constraint profiles_cadence_band_valid check (
+    cadence_band is null or (
+      (cadence_band->>'minRpm')::numeric between 30 and 150
+      and (cadence_band->>'maxRpm')::numeric between 30 and 150
+      and (cadence_band->>'minRpm')::numeric <= (cadence_band->>'maxRpm')::numeric
+    )
+  );
@@ -0,0 +1,82 @@
+-- Imports validated fork/shock records (see parseSuspensionImport) in one transaction,
+-- so a failing record leaves nothing half-written. Called by
+-- POST /api/catalog/suspension/import with the service role; each record upserts its
+-- `products` row and its `forks` / `shocks` detail row. Optional detail fields missing
+-- from a record (the validator omits blanks) keep their current value; an explicit
+-- null clears them. A record's `product_id`, set when the route matched a differently
+-- spelled catalog product, wins over the exact brand/model lookup. Returns the number
+-- of products created and updated.
+create or replace function public.import_suspension_catalog(records jsonb)
+returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  item jsonb;
+  detail_table text;
+  product_id uuid;
+  created integer := 0;
+  updated integer := 0;
+begin
+  for item in select * from jsonb_array_elements(records)
+  loop
+    detail_table := case item ->> 'product_type'
+      when 'fork' then 'forks'
+      when 'shock' then 'shocks'
+    end;
+    if detail_table is null then
+      raise exception 'Unknown product_type: %', item ->> 'product_type';
+    end if;
+
+    product_id := (item ->> 'product_id')::uuid;
+    if product_id is null then
+      select p.id into product_id
+      from public.products p
+      where p.product_type = item ->> 'product_type'
+        and p.brand = item ->> 'brand'
+        and p.model = item ->> 'model'
+      limit 1;
+    end if;
+
+    if product_id is null then
+      insert into public.products (product_type, brand, model, description)
+      values (item ->> 'product_type', item ->> 'brand', item ->> 'model', item ->> 'description')
+      returning id into product_id;
+      created := created + 1;
+    else
+      updated := updated + 1;
+    end if;
+
+    execute format($sql$
+      insert into public.%1$I as d (
+        product_id, travel_mm, stanchion_diameter_mm, air_chamber_volume_cc, negative_chamber_volume_cc,
+        air_piston_diameter_mm, max_pressure_psi, recommended_sag_percent, spring_curve, damper,
+        baseline_pressure_chart, baseline_pressure_chart_source, updated_at
+      )
+      select $1, r.travel_mm, r.stanchion_diameter_mm, r.air_chamber_volume_cc, r.negative_chamber_volume_cc,
+        r.air_piston_diameter_mm, r.max_pressure_psi, r.recommended_sag_percent, r.spring_curve, r.damper,
+        r.baseline_pressure_chart, r.baseline_pressure_chart_source, now()
+      from jsonb_populate_record(null::public.%1$I, $2) r
+      on conflict (product_id) do update set
+        travel_mm = case when $2 ? 'travel_mm' then excluded.travel_mm else d.travel_mm end,
+        stanchion_diameter_mm = case when $2 ? 'stanchion_diameter_mm' then excluded.stanchion_diameter_mm else d.stanchion_diameter_mm end,
+        air_chamber_volume_cc = case when $2 ? 'air_chamber_volume_cc' then excluded.air_chamber_volume_cc else d.air_chamber_volume_cc end,
+        negative_chamber_volume_cc = case when $2 ? 'negative_chamber_volume_cc' then excluded.negative_chamber_volume_cc else d.negative_chamber_volume_cc end,
+        air_piston_diameter_mm = case when $2 ? 'air_piston_diameter_mm' then excluded.air_piston_diameter_mm else d.air_piston_diameter_mm end,
+        max_pressure_psi = case when $2 ? 'max_pressure_psi' then excluded.max_pressure_psi else d.max_pressure_psi end,
+        recommended_sag_percent = case when $2 ? 'recommended_sag_percent' then excluded.recommended_sag_percent else d.recommended_sag_percent end,
+        spring_curve = case when $2 ? 'spring_curve' then excluded.spring_curve else d.spring_curve end,
+        damper = case when $2 ? 'damper' then excluded.damper else d.damper end,
+        baseline_pressure_chart = case when $2 ? 'baseline_pressure_chart' then excluded.baseline_pressure_chart else d.baseline_pressure_chart end,
+        baseline_pressure_chart_source = case when $2 ? 'baseline_pressure_chart_source' then excluded.baseline_pressure_chart_source else d.baseline_pressure_chart_source end,
+        updated_at = excluded.updated_at
+    $sql$, detail_table)
+    using product_id, item;
+  end loop;
+
+  return jsonb_build_object('created', created, 'updated', updated);
+end;
+$$;
+
+revoke execute on function public.import_suspension_catalog(jsonb) from public, anon, authenticated;
+grant execute on function public.import_suspension_catalog(jsonb) to service_role;
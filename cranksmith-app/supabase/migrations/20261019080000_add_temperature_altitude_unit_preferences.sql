@@ -0,0 +1,17 @@
+-- Temperature and altitude join the per-user display units (ride conditions on the tire
+-- calculator). Logic stays in °C / metres; missing keys fall back to the metric default.
+alter table public.profiles
+  alter column unit_preferences
+    set default '{"mass": "kg", "pressure": "bar", "length": "mm", "temperature": "c", "altitude": "m"}'::jsonb;
+
+alter table public.profiles
+  drop constraint if exists profiles_unit_preferences_valid;
+
+alter table public.profiles
+  add constraint profiles_unit_preferences_valid check (
+    (unit_preferences->>'mass' is null or unit_preferences->>'mass' in ('kg', 'lb'))
+    and (unit_preferences->>'pressure' is null or unit_preferences->>'pressure' in ('bar', 'psi', 'kpa'))
+    and (unit_preferences->>'length' is null or unit_preferences->>'length' in ('mm', 'in'))
+    and (unit_preferences->>'temperature' is null or unit_preferences->>'temperature' in ('c', 'f'))
+    and (unit_preferences->>'altitude' is null or unit_preferences->>'altitude' in ('m', 'ft'))
+  );
@@ -0,0 +1,23 @@
+-- Makes one snapshot its bike's active setup in a single call, so a failure can't leave
+-- the bike with no active snapshot. The previous one is cleared first because the
+-- one-active-per-bike index is checked row by row. Runs as the caller, so the
+-- snapshots' row level security still applies.
+create or replace function public.activate_suspension_snapshot(target_bike_id uuid, target_snapshot_id uuid)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  update public.suspension_snapshots
+  set is_active = false
+  where bike_id = target_bike_id and is_active and id <> target_snapshot_id;
+
+  update public.suspension_snapshots
+  set is_active = true
+  where bike_id = target_bike_id and id = target_snapshot_id;
+
+  if not found then
+    raise exception 'Snapshot % not found for bike %', target_snapshot_id, target_bike_id;
+  end if;
+end;
+$$;